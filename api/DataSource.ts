@@ -0,0 +1,135 @@
+import type { IndexQuery } from "../indexer";
+import type { ContributionStatus, CrowdfundingClient, Page, PlatformStats, Project, ProjectStatus } from "../sdk";
+import { toDate } from "../sdk";
+
+/**
+ * API Data Sources
+ *
+ * The API reads either straight from the chain through the SDK client, or from
+ * the local index written by indexer:run. Both expose the same interface.
+ */
+
+export interface ProjectFilter {
+  status?: ProjectStatus;
+  category?: string;
+  creator?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface CrowdfundingDataSource {
+  readonly name: "chain" | "index";
+  listProjects(filter: ProjectFilter): Promise<Page<Project>>;
+  // undefined when the project does not exist
+  getProject(projectId: number): Promise<Project | undefined>;
+  getBackers(projectId: number): Promise<ContributionStatus[]>;
+  getCreatorProjects(creator: string): Promise<Project[]>;
+  getBackerProjects(backer: string): Promise<Project[]>;
+  getStats(): Promise<PlatformStats>;
+}
+
+function matches(project: Project, filter: ProjectFilter): boolean {
+  return (
+    (filter.status === undefined || project.status === filter.status) &&
+    (filter.category === undefined || project.category.toLowerCase() === filter.category.toLowerCase()) &&
+    (filter.creator === undefined || project.creator.toLowerCase() === filter.creator.toLowerCase())
+  );
+}
+
+/**
+ * Reads every request from the chain, simple but one RPC call per project
+ */
+export class ChainDataSource implements CrowdfundingDataSource {
+  readonly name = "chain";
+
+  constructor(private readonly client: CrowdfundingClient) {}
+
+  async listProjects(filter: ProjectFilter): Promise<Page<Project>> {
+    const ids =
+      filter.creator === undefined
+        ? Array.from({ length: await this.client.getProjectCount() }, (_, i) => i + 1)
+        : await this.client.getCreatorProjectIds(filter.creator);
+
+    const projects = (await this.client.getProjects(ids)).filter((project) => matches(project, filter));
+    return {
+      items: projects.slice(filter.offset, filter.offset + filter.limit),
+      total: projects.length,
+      offset: filter.offset,
+      limit: filter.limit,
+    };
+  }
+
+  async getProject(projectId: number): Promise<Project | undefined> {
+    if (!(await this.client.projectExists(projectId))) {
+      return undefined;
+    }
+    return this.client.getProject(projectId);
+  }
+
+  async getBackers(projectId: number): Promise<ContributionStatus[]> {
+    const backers = await this.client.getBackers(projectId);
+    return Promise.all(backers.map((backer) => this.client.getContributionStatus(projectId, backer)));
+  }
+
+  async getCreatorProjects(creator: string): Promise<Project[]> {
+    return this.client.getProjects(await this.client.getCreatorProjectIds(creator));
+  }
+
+  async getBackerProjects(backer: string): Promise<Project[]> {
+    return this.client.getProjects(await this.client.getBackerProjectIds(backer));
+  }
+
+  async getStats(): Promise<PlatformStats> {
+    return this.client.getPlatformStats();
+  }
+}
+
+/**
+ * Reads from the local index, answers without RPC calls but lags behind the chain.
+ * The query is fetched on every request so the caller can reload a changed index file.
+ */
+export class IndexDataSource implements CrowdfundingDataSource {
+  readonly name = "index";
+
+  constructor(private readonly getQuery: () => IndexQuery) {}
+
+  private get query(): IndexQuery {
+    return this.getQuery();
+  }
+
+  async listProjects(filter: ProjectFilter): Promise<Page<Project>> {
+    return this.query.listProjects(filter);
+  }
+
+  async getProject(projectId: number): Promise<Project | undefined> {
+    return this.query.getProject(projectId);
+  }
+
+  async getBackers(projectId: number): Promise<ContributionStatus[]> {
+    const contributions = this.query.getContributions(projectId);
+    const refunded = new Set(this.query.getRefunds(projectId).map((refund) => refund.backer.toLowerCase()));
+
+    return this.query.getBackers(projectId).map((backer) => {
+      const last = contributions.filter((contribution) => contribution.backer === backer).pop();
+      return {
+        projectId,
+        backer,
+        exists: true,
+        timestamp: toDate(last?.timestamp ?? 0),
+        refunded: refunded.has(backer.toLowerCase()),
+      };
+    });
+  }
+
+  async getCreatorProjects(creator: string): Promise<Project[]> {
+    return this.query.getCreatorProjectIds(creator).map((id) => this.query.getProject(id)!);
+  }
+
+  async getBackerProjects(backer: string): Promise<Project[]> {
+    return this.query.getBackerProjectIds(backer).map((id) => this.query.getProject(id)!);
+  }
+
+  async getStats(): Promise<PlatformStats> {
+    return this.query.getPlatformStats();
+  }
+}
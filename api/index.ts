@@ -0,0 +1,10 @@
+/**
+ * Anonymous Cultural Crowdfunding API
+ *
+ * Read-only HTTP API over the chain or the local index.
+ */
+
+export * from "./DataSource";
+export * from "./openapi";
+export * from "./schemas";
+export * from "./server";
@@ -0,0 +1,109 @@
+import type { SchemaName } from "./schemas";
+import { SCHEMAS } from "./schemas";
+
+/**
+ * OpenAPI document of the read-only crowdfunding API, served at /openapi.json
+ */
+
+export const API_VERSION = "1.0.0";
+export const MAX_PAGE_SIZE = 100;
+
+function jsonResponse(description: string, schema: SchemaName) {
+  return {
+    description,
+    content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+  };
+}
+
+const notFound = jsonResponse("Not found", "Error");
+const badRequest = jsonResponse("Invalid parameter", "Error");
+
+const projectId = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "integer", minimum: 1 },
+};
+
+const accountAddress = {
+  name: "address",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+};
+
+export function createOpenApiDocument(serverUrl?: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Anonymous Cultural Crowdfunding API",
+      version: API_VERSION,
+      description:
+        "Read-only view of the crowdfunding contract. Encrypted amounts are never exposed, " +
+        "decrypt them client side with the SDK.",
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    paths: {
+      "/projects": {
+        get: {
+          summary: "List projects",
+          parameters: [
+            {
+              name: "status",
+              in: "query",
+              schema: { type: "string", enum: ["Active", "Successful", "Failed", "Withdrawn"] },
+            },
+            { name: "category", in: "query", schema: { type: "string" } },
+            { name: "creator", in: "query", schema: accountAddress.schema },
+            { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: 20 },
+            },
+          ],
+          responses: { "200": jsonResponse("One page of projects", "ProjectPage"), "400": badRequest },
+        },
+      },
+      "/projects/{id}": {
+        get: {
+          summary: "Get a project",
+          parameters: [projectId],
+          responses: { "200": jsonResponse("The project", "Project"), "400": badRequest, "404": notFound },
+        },
+      },
+      "/projects/{id}/backers": {
+        get: {
+          summary: "List the backers of a project",
+          parameters: [projectId],
+          responses: {
+            "200": jsonResponse("The backers, without amounts", "ProjectBackers"),
+            "400": badRequest,
+            "404": notFound,
+          },
+        },
+      },
+      "/creators/{address}": {
+        get: {
+          summary: "Projects created by an account",
+          parameters: [accountAddress],
+          responses: { "200": jsonResponse("The created projects", "AccountProjects"), "400": badRequest },
+        },
+      },
+      "/backers/{address}": {
+        get: {
+          summary: "Projects backed by an account",
+          parameters: [accountAddress],
+          responses: { "200": jsonResponse("The backed projects", "AccountProjects"), "400": badRequest },
+        },
+      },
+      "/stats": {
+        get: {
+          summary: "Platform statistics",
+          responses: { "200": jsonResponse("Project counts by status", "Stats") },
+        },
+      },
+    },
+    components: { schemas: SCHEMAS },
+  };
+}
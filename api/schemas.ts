@@ -0,0 +1,166 @@
+/**
+ * API Response Schemas
+ *
+ * JSON schemas (draft 2020-12 subset, as used by OpenAPI 3.1) of every
+ * response body served by the API. They are embedded in the OpenAPI document
+ * and the response types below are written to match them.
+ */
+
+const address = { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" } as const;
+const dateTime = { type: "string", format: "date-time" } as const;
+
+export const ProjectSchema = {
+  type: "object",
+  required: [
+    "id",
+    "title",
+    "description",
+    "category",
+    "creator",
+    "status",
+    "createdAt",
+    "deadline",
+    "backerCount",
+    "metadataHash",
+  ],
+  additionalProperties: false,
+  properties: {
+    id: { type: "integer", minimum: 1 },
+    title: { type: "string" },
+    description: { type: "string" },
+    category: { type: "string" },
+    creator: address,
+    status: { type: "string", enum: ["Active", "Successful", "Failed", "Withdrawn"] },
+    createdAt: dateTime,
+    deadline: dateTime,
+    backerCount: { type: "integer", minimum: 0 },
+    metadataHash: { type: "string" },
+  },
+} as const;
+
+export const ProjectPageSchema = {
+  type: "object",
+  required: ["items", "total", "offset", "limit"],
+  additionalProperties: false,
+  properties: {
+    items: { type: "array", items: { $ref: "#/components/schemas/Project" } },
+    total: { type: "integer", minimum: 0 },
+    offset: { type: "integer", minimum: 0 },
+    limit: { type: "integer", minimum: 1 },
+  },
+} as const;
+
+export const BackerSchema = {
+  type: "object",
+  required: ["address", "lastContributionAt", "refunded"],
+  additionalProperties: false,
+  properties: {
+    address,
+    lastContributionAt: dateTime,
+    refunded: { type: "boolean" },
+  },
+} as const;
+
+export const ProjectBackersSchema = {
+  type: "object",
+  required: ["projectId", "backers"],
+  additionalProperties: false,
+  properties: {
+    projectId: { type: "integer", minimum: 1 },
+    backers: { type: "array", items: { $ref: "#/components/schemas/Backer" } },
+  },
+} as const;
+
+export const AccountProjectsSchema = {
+  type: "object",
+  required: ["address", "projects"],
+  additionalProperties: false,
+  properties: {
+    address,
+    projects: { type: "array", items: { $ref: "#/components/schemas/Project" } },
+  },
+} as const;
+
+export const StatsSchema = {
+  type: "object",
+  required: ["totalProjects", "activeProjects", "successfulProjects", "failedProjects", "source"],
+  additionalProperties: false,
+  properties: {
+    totalProjects: { type: "integer", minimum: 0 },
+    activeProjects: { type: "integer", minimum: 0 },
+    successfulProjects: { type: "integer", minimum: 0 },
+    failedProjects: { type: "integer", minimum: 0 },
+    source: { type: "string", enum: ["chain", "index"] },
+  },
+} as const;
+
+export const ErrorSchema = {
+  type: "object",
+  required: ["error"],
+  additionalProperties: false,
+  properties: {
+    error: { type: "string" },
+  },
+} as const;
+
+export const SCHEMAS = {
+  Project: ProjectSchema,
+  ProjectPage: ProjectPageSchema,
+  Backer: BackerSchema,
+  ProjectBackers: ProjectBackersSchema,
+  AccountProjects: AccountProjectsSchema,
+  Stats: StatsSchema,
+  Error: ErrorSchema,
+} as const;
+
+export type SchemaName = keyof typeof SCHEMAS;
+
+// ----- Response bodies -----
+
+export interface ProjectResponse {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  creator: string;
+  status: "Active" | "Successful" | "Failed" | "Withdrawn";
+  createdAt: string;
+  deadline: string;
+  backerCount: number;
+  metadataHash: string;
+}
+
+export interface ProjectPageResponse {
+  items: ProjectResponse[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface BackerResponse {
+  address: string;
+  lastContributionAt: string;
+  refunded: boolean;
+}
+
+export interface ProjectBackersResponse {
+  projectId: number;
+  backers: BackerResponse[];
+}
+
+export interface AccountProjectsResponse {
+  address: string;
+  projects: ProjectResponse[];
+}
+
+export interface StatsResponse {
+  totalProjects: number;
+  activeProjects: number;
+  successfulProjects: number;
+  failedProjects: number;
+  source: "chain" | "index";
+}
+
+export interface ErrorResponse {
+  error: string;
+}
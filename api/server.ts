@@ -0,0 +1,195 @@
+import * as http from "http";
+import { isAddress } from "ethers";
+import type { Project } from "../sdk";
+import { ProjectStatus } from "../sdk";
+import type { CrowdfundingDataSource } from "./DataSource";
+import { MAX_PAGE_SIZE, createOpenApiDocument } from "./openapi";
+import type {
+  AccountProjectsResponse,
+  ErrorResponse,
+  ProjectBackersResponse,
+  ProjectPageResponse,
+  ProjectResponse,
+  StatsResponse,
+} from "./schemas";
+
+/**
+ * Crowdfunding API Server
+ *
+ * Read-only JSON API built on the node http module, see openapi.ts for the routes.
+ *
+ * Usage:
+ *   const server = createApiServer(new ChainDataSource(client));
+ *   server.listen(3000);
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface ApiServerOptions {
+  // Value of the Access-Control-Allow-Origin header, disabled when undefined
+  corsOrigin?: string;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Rejected request parameter, answered with a 400
+ */
+export class BadRequestError extends Error {}
+
+// Resolves to undefined when the resource does not exist
+type Handler = (params: string[], query: URLSearchParams) => Promise<unknown>;
+
+function toProjectResponse(project: Project): ProjectResponse {
+  return {
+    id: project.id,
+    title: project.title,
+    description: project.description,
+    category: project.category,
+    creator: project.creator,
+    status: ProjectStatus[project.status] as ProjectResponse["status"],
+    createdAt: project.createdAt.toISOString(),
+    deadline: project.deadline.toISOString(),
+    backerCount: project.backerCount,
+    metadataHash: project.metadataHash,
+  };
+}
+
+function parseInteger(value: string | null, name: string, fallback: number, min: number, max?: number): number {
+  if (value === null) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || (max !== undefined && parsed > max)) {
+    throw new BadRequestError(`${name} must be an integer >= ${min}` + (max !== undefined ? ` and <= ${max}` : ""));
+  }
+  return parsed;
+}
+
+function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) {
+    throw new BadRequestError(`${name} is not a valid address: ${value}`);
+  }
+  return value;
+}
+
+function parseStatus(value: string | null): ProjectStatus | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  // Names only, ProjectStatus["0"] would hit the reverse mapping of the enum
+  const status: unknown = ProjectStatus[value as keyof typeof ProjectStatus];
+  if (typeof status !== "number") {
+    throw new BadRequestError(`Unknown status: ${value} (expected Active, Successful, Failed or Withdrawn)`);
+  }
+  return status as ProjectStatus;
+}
+
+function createRoutes(source: CrowdfundingDataSource): [RegExp, Handler][] {
+  return [
+    [
+      /^\/projects$/,
+      async (_, query): Promise<ProjectPageResponse> => {
+        const creator = query.get("creator");
+        const page = await source.listProjects({
+          status: parseStatus(query.get("status")),
+          category: query.get("category") ?? undefined,
+          creator: creator === null ? undefined : parseAddress(creator, "creator"),
+          offset: parseInteger(query.get("offset"), "offset", 0, 0),
+          limit: parseInteger(query.get("limit"), "limit", DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+        });
+        return { ...page, items: page.items.map(toProjectResponse) };
+      },
+    ],
+    [
+      /^\/projects\/([^/]+)$/,
+      async ([id]): Promise<ProjectResponse | undefined> => {
+        const project = await source.getProject(parseInteger(id, "id", 0, 1));
+        return project && toProjectResponse(project);
+      },
+    ],
+    [
+      /^\/projects\/([^/]+)\/backers$/,
+      async ([id]): Promise<ProjectBackersResponse | undefined> => {
+        const projectId = parseInteger(id, "id", 0, 1);
+        if (!(await source.getProject(projectId))) {
+          return undefined;
+        }
+        const backers = await source.getBackers(projectId);
+        return {
+          projectId,
+          backers: backers.map((backer) => ({
+            address: backer.backer,
+            lastContributionAt: backer.timestamp.toISOString(),
+            refunded: backer.refunded,
+          })),
+        };
+      },
+    ],
+    [
+      /^\/creators\/([^/]+)$/,
+      async ([address]): Promise<AccountProjectsResponse> => ({
+        address: parseAddress(address, "address"),
+        projects: (await source.getCreatorProjects(address)).map(toProjectResponse),
+      }),
+    ],
+    [
+      /^\/backers\/([^/]+)$/,
+      async ([address]): Promise<AccountProjectsResponse> => ({
+        address: parseAddress(address, "address"),
+        projects: (await source.getBackerProjects(address)).map(toProjectResponse),
+      }),
+    ],
+    [/^\/stats$/, async (): Promise<StatsResponse> => ({ ...(await source.getStats()), source: source.name })],
+    [/^\/openapi\.json$/, async () => createOpenApiDocument()],
+  ];
+}
+
+export function createApiServer(source: CrowdfundingDataSource, options: ApiServerOptions = {}): http.Server {
+  const routes = createRoutes(source);
+
+  return http.createServer(async (request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        ...(options.corsOrigin ? { "Access-Control-Allow-Origin": options.corsOrigin } : {}),
+      });
+      response.end(JSON.stringify(body));
+    };
+    const fail = (status: number, error: string) => send(status, { error } satisfies ErrorResponse);
+
+    if (request.method !== "GET") {
+      response.setHeader("Allow", "GET");
+      fail(405, `Method ${request.method} not allowed, the API is read-only`);
+      return;
+    }
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const pathname = url.pathname.replace(/\/+$/, "") || "/";
+
+    for (const [pattern, handler] of routes) {
+      const match = pathname.match(pattern);
+      if (!match) {
+        continue;
+      }
+
+      try {
+        const body = await handler(match.slice(1).map(decodeURIComponent), url.searchParams);
+        if (body === undefined) {
+          fail(404, `Not found: ${pathname}`);
+        } else {
+          send(200, body);
+        }
+      } catch (error: unknown) {
+        if (error instanceof BadRequestError) {
+          fail(400, error.message);
+        } else {
+          options.onError?.(error);
+          fail(500, "Internal error");
+        }
+      }
+      return;
+    }
+
+    fail(404, `Unknown route: ${pathname}`);
+  });
+}
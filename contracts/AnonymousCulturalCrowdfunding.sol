@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint64, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint64, euint32, euint8, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract AnonymousCulturalCrowdfunding is SepoliaConfig {
@@ -18,6 +18,17 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         Withdrawn
     }
 
+    // What a decryption request was made for, each kind has its own callback
+    enum DecryptionKind {
+        None,
+        GoalCheck,
+        Finalization,
+        Withdrawal,
+        Refund,
+        DepositWithdrawal,
+        Progress
+    }
+
     struct CulturalProject {
         string title;
         string description;
@@ -34,19 +45,55 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
     }
 
     struct AnonymousContribution {
-        euint64 amount; // Encrypted contribution amount
-        uint256 timestamp;
+        euint64 amount; // Encrypted total of the backer's contributions
+        uint256 timestamp; // Latest contribution
         bool refunded;
         string supportMessage; // Optional encrypted support message
+        bool confidential; // Drawn from the deposit pool, refunded back into it
+    }
+
+    // A single contribution, kept in the backer's history
+    struct ContributionRecord {
+        euint64 amount;
+        uint256 timestamp;
+        string supportMessage;
+        bool confidential;
+    }
+
+    // Context of a decryption request, looked up by its callback
+    struct DecryptionRequest {
+        DecryptionKind kind;
+        uint32 projectId; // 0 for deposit withdrawals
+        address account; // Recipient of withdrawals, refunds and deposit withdrawals
+        uint64 amount; // Requested amount of deposit withdrawals
+        bool fulfilled;
     }
 
     // Mappings
     mapping(uint32 => CulturalProject) public projects;
     mapping(uint32 => mapping(address => AnonymousContribution)) public contributions;
+    mapping(uint32 => mapping(address => ContributionRecord[])) private contributionHistory;
     mapping(uint32 => address[]) public projectBackers;
     mapping(address => uint32[]) public creatorProjects;
     mapping(address => uint32[]) public backerProjects;
 
+    // Confidential deposit pool: ETH deposited up front and spent as encrypted amounts
+    mapping(address => euint64) private depositBalances;
+
+    // Per-project escrow: ETH held for a project until it is withdrawn or refunded
+    mapping(uint32 => euint64) private projectEscrows;
+
+    // Decryption requests by request ID, and the requests of each project
+    mapping(uint256 => DecryptionRequest) private decryptionRequests;
+    mapping(uint32 => uint256[]) private projectRequests;
+    mapping(uint32 => bool) private finalizationPending;
+
+    // Opt-in coarse progress: only the quarter of the target reached is decrypted, never the amounts
+    mapping(uint32 => bool) private progressPublished;
+    mapping(uint32 => uint8) private progressPercent;
+    mapping(uint32 => uint256) private progressUpdatedAt;
+    mapping(uint32 => uint256) private progressRequestId; // Request of the bucket last applied
+
     // Events
     event ProjectCreated(
         uint32 indexed projectId,
@@ -81,6 +128,45 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         address indexed creator
     );
 
+    event DepositMade(
+        address indexed backer,
+        uint256 amount
+    );
+
+    event DepositWithdrawalRequested(
+        address indexed backer,
+        uint256 indexed requestId,
+        uint256 amount
+    );
+
+    event DepositWithdrawn(
+        address indexed backer,
+        uint256 amount,
+        bool paid
+    );
+
+    event DecryptionRequested(
+        uint256 indexed requestId,
+        uint32 indexed projectId,
+        DecryptionKind kind
+    );
+
+    event ProgressPublished(
+        uint32 indexed projectId,
+        uint8 percent
+    );
+
+    event EscrowReleased(
+        uint32 indexed projectId,
+        address indexed recipient,
+        uint256 amount
+    );
+
+    event OwnershipTransferred(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+
     // Modifiers
     modifier onlyOwner() {
         require(msg.sender == owner, "Not authorized");
@@ -169,72 +255,190 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         string calldata _supportMessage
     ) external payable projectExists(_projectId) projectActive(_projectId) {
         require(msg.value > 0, "Contribution must be greater than 0");
+        require(msg.value <= type(uint64).max, "Contribution exceeds uint64");
 
-        // Encrypt contribution amount using msg.value
+        // Encrypt contribution amount using msg.value, which is public in the transaction
         euint64 encryptedAmount = FHE.asEuint64(uint64(msg.value));
 
+        _recordContribution(_projectId, encryptedAmount, _supportMessage, false);
+    }
+
+    // Contribute an encrypted amount drawn from the deposit pool, no plaintext amount is ever sent
+    function contributeConfidentially(
+        uint32 _projectId,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof,
+        string calldata _supportMessage
+    ) external projectExists(_projectId) projectActive(_projectId) {
+        euint64 requested = FHE.fromExternal(_encryptedAmount, _inputProof);
+        euint64 balance = depositBalances[msg.sender];
+
+        // An amount above the balance contributes 0 instead of reverting, a revert would leak the balance
+        euint64 amount = FHE.select(FHE.le(requested, balance), requested, FHE.asEuint64(0));
+        euint64 newBalance = FHE.sub(balance, amount);
+        depositBalances[msg.sender] = newBalance;
+
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, msg.sender);
+
+        _recordContribution(_projectId, amount, _supportMessage, true);
+    }
+
+    function _recordContribution(
+        uint32 _projectId,
+        euint64 encryptedAmount,
+        string calldata _supportMessage,
+        bool _confidential
+    ) internal {
         CulturalProject storage project = projects[_projectId];
+        AnonymousContribution storage contribution = contributions[_projectId][msg.sender];
 
         // Check if this is a first-time backer
-        if (contributions[_projectId][msg.sender].timestamp == 0) {
+        if (contribution.timestamp == 0) {
             project.backerCount++;
             projectBackers[_projectId].push(msg.sender);
             backerProjects[msg.sender].push(_projectId);
+            contribution.amount = encryptedAmount;
+        } else {
+            // Repeat contributions add up, so that a refund returns all of them
+            contribution.amount = FHE.add(contribution.amount, encryptedAmount);
         }
 
         // Record anonymous contribution
-        contributions[_projectId][msg.sender] = AnonymousContribution({
+        contribution.timestamp = block.timestamp;
+        if (bytes(_supportMessage).length > 0) {
+            contribution.supportMessage = _supportMessage;
+        }
+        // A partly confidential total is refunded into the deposit pool, which keeps it encrypted
+        contribution.confidential = contribution.confidential || _confidential;
+
+        contributionHistory[_projectId][msg.sender].push(ContributionRecord({
             amount: encryptedAmount,
             timestamp: block.timestamp,
-            refunded: false,
-            supportMessage: _supportMessage
-        });
+            supportMessage: _supportMessage,
+            confidential: _confidential
+        }));
 
         // Update project's current amount (encrypted)
         euint64 newCurrentAmount = FHE.add(project.currentAmount, encryptedAmount);
         project.currentAmount = newCurrentAmount;
+        _setEscrow(_projectId, FHE.add(projectEscrows[_projectId], encryptedAmount));
 
         // Set FHE permissions
         FHE.allowThis(encryptedAmount);
+        FHE.allowThis(contribution.amount);
         FHE.allowThis(newCurrentAmount);
         FHE.allow(encryptedAmount, msg.sender);
+        FHE.allow(contribution.amount, msg.sender);
         FHE.allow(newCurrentAmount, project.creator);
+        // getContribution also answers the creator and the owner, let them decrypt the total it returns
+        FHE.allow(contribution.amount, project.creator);
+        FHE.allow(contribution.amount, owner);
 
         emit AnonymousContributionMade(_projectId, msg.sender, block.timestamp);
 
-        // Check if project reached its goal (this would need FHE comparison in practice)
+        // Check if project reached its goal
         _checkProjectGoal(_projectId);
     }
 
+    // Deposit ETH into the confidential pool that contributeConfidentially draws from
+    function deposit() external payable {
+        require(msg.value > 0 && msg.value <= type(uint64).max, "Invalid deposit amount");
+
+        euint64 balance = FHE.add(depositBalances[msg.sender], FHE.asEuint64(uint64(msg.value)));
+        depositBalances[msg.sender] = balance;
+
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+
+        emit DepositMade(msg.sender, msg.value);
+    }
+
+    // Withdraw ETH from the deposit pool, paid once the balance check is decrypted
+    function withdrawDeposit(uint64 _amount) external {
+        require(_amount > 0, "Invalid deposit amount");
+
+        euint64 balance = depositBalances[msg.sender];
+        ebool covered = FHE.le(FHE.asEuint64(_amount), balance);
+        euint64 newBalance = FHE.select(covered, FHE.sub(balance, _amount), balance);
+        depositBalances[msg.sender] = newBalance;
+
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, msg.sender);
+
+        // Only whether the balance covered the amount is decrypted, not the balance itself
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(covered);
+        uint256 requestId = _requestDecryption(
+            cts,
+            this.processDepositWithdrawal.selector,
+            DecryptionKind.DepositWithdrawal,
+            0,
+            msg.sender,
+            _amount
+        );
+
+        emit DepositWithdrawalRequested(msg.sender, requestId, _amount);
+    }
+
+    // Process deposit withdrawal callback
+    function processDepositWithdrawal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        DecryptionRequest memory request = _fulfillDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof,
+            DecryptionKind.DepositWithdrawal
+        );
+        bool covered = abi.decode(cleartexts, (bool));
+
+        if (covered) {
+            (bool success, ) = payable(request.account).call{value: request.amount}("");
+            require(success, "Transfer failed");
+        }
+
+        emit DepositWithdrawn(request.account, request.amount, covered);
+    }
+
     // Internal function to check if project reached its goal
     function _checkProjectGoal(uint32 _projectId) internal {
-        CulturalProject storage project = projects[_projectId];
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(_goalReached(_projectId));
+        _requestDecryption(cts, this.processGoalCheck.selector, DecryptionKind.GoalCheck, _projectId, address(0), 0);
 
-        // In a real FHE implementation, this would use encrypted comparison
-        // For now, we'll use a simplified approach
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(project.currentAmount);
-        cts[1] = FHE.toBytes32(project.targetAmount);
-        FHE.requestDecryption(cts, this.processGoalCheck.selector);
+        if (progressPublished[_projectId]) {
+            _requestProgress(_projectId);
+        }
+    }
+
+    // Compare raised and target amounts homomorphically, only the resulting ebool is ever decrypted
+    function _goalReached(uint32 _projectId) internal returns (ebool) {
+        CulturalProject storage project = projects[_projectId];
+        return FHE.ge(project.currentAmount, project.targetAmount);
     }
 
     // Callback function to process goal achievement check
     function processGoalCheck(
         uint256 requestId,
-        uint64 currentAmount,
-        uint64 targetAmount
+        bytes memory cleartexts,
+        bytes memory decryptionProof
     ) external {
-        require(requestId > 0, "Invalid request ID");
+        DecryptionRequest memory request = _fulfillDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof,
+            DecryptionKind.GoalCheck
+        );
+        bool goalReached = abi.decode(cleartexts, (bool));
 
-        // Find which project this belongs to (simplified lookup)
-        for (uint32 i = 1; i <= projectCounter; i++) {
-            if (projects[i].status == ProjectStatus.Active) {
-                if (currentAmount >= targetAmount) {
-                    projects[i].status = ProjectStatus.Successful;
-                    emit ProjectFunded(i, projects[i].creator);
-                    break;
-                }
-            }
+        // A finalization or an earlier goal check may have settled the project already
+        CulturalProject storage project = projects[request.projectId];
+        if (project.status == ProjectStatus.Active && goalReached) {
+            project.status = ProjectStatus.Successful;
+            emit ProjectFunded(request.projectId, project.creator);
         }
     }
 
@@ -243,40 +447,119 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         CulturalProject storage project = projects[_projectId];
         require(block.timestamp >= project.deadline, "Project deadline not reached");
         require(project.status == ProjectStatus.Active, "Project already finalized");
+        require(!finalizationPending[_projectId], "Finalization already pending");
 
-        // Request decryption to check if goal was met
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(project.currentAmount);
-        cts[1] = FHE.toBytes32(project.targetAmount);
-        FHE.requestDecryption(cts, this.processFinalization.selector);
+        finalizationPending[_projectId] = true;
+
+        // Request decryption of whether the goal was met
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(_goalReached(_projectId));
+        _requestDecryption(
+            cts,
+            this.processFinalization.selector,
+            DecryptionKind.Finalization,
+            _projectId,
+            address(0),
+            0
+        );
     }
 
     // Process project finalization
     function processFinalization(
         uint256 requestId,
-        uint64 currentAmount,
-        uint64 targetAmount
+        bytes memory cleartexts,
+        bytes memory decryptionProof
     ) external {
-        require(requestId > 0, "Invalid request ID");
+        DecryptionRequest memory request = _fulfillDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof,
+            DecryptionKind.Finalization
+        );
+        bool goalReached = abi.decode(cleartexts, (bool));
 
-        // Find the project to finalize (simplified)
-        for (uint32 i = 1; i <= projectCounter; i++) {
-            CulturalProject storage project = projects[i];
-            if (project.status == ProjectStatus.Active &&
-                block.timestamp >= project.deadline) {
-
-                if (currentAmount >= targetAmount) {
-                    project.status = ProjectStatus.Successful;
-                    emit ProjectFunded(i, project.creator);
-                } else {
-                    project.status = ProjectStatus.Failed;
-                    emit ProjectFailed(i);
-                }
-                break;
-            }
+        uint32 projectId = request.projectId;
+        CulturalProject storage project = projects[projectId];
+        finalizationPending[projectId] = false;
+
+        // A goal check may have marked the project successful while the finalization was pending
+        if (project.status != ProjectStatus.Active) {
+            return;
+        }
+
+        if (goalReached) {
+            project.status = ProjectStatus.Successful;
+            emit ProjectFunded(projectId, project.creator);
+        } else {
+            project.status = ProjectStatus.Failed;
+            emit ProjectFailed(projectId);
         }
     }
 
+    // Opt in to (or out of) publishing the progress of a project in 25% buckets
+    function setProgressPublished(uint32 _projectId, bool _published)
+        external
+        projectExists(_projectId)
+        onlyCreator(_projectId)
+    {
+        progressPublished[_projectId] = _published;
+
+        if (_published) {
+            _requestProgress(_projectId);
+        } else {
+            delete progressPercent[_projectId];
+            delete progressUpdatedAt[_projectId];
+        }
+    }
+
+    // Count the quarters of the target reached under FHE and request decryption of that count only
+    function _requestProgress(uint32 _projectId) internal {
+        CulturalProject storage project = projects[_projectId];
+        euint64 quarterTarget = FHE.div(project.targetAmount, 4);
+
+        euint8 quarters = FHE.asEuint8(0);
+        for (uint64 quarter = 1; quarter <= 3; quarter++) {
+            ebool reached = FHE.ge(project.currentAmount, FHE.mul(quarterTarget, quarter));
+            quarters = FHE.add(quarters, FHE.asEuint8(reached));
+        }
+        quarters = FHE.add(quarters, FHE.asEuint8(_goalReached(_projectId)));
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(quarters);
+        _requestDecryption(cts, this.processProgress.selector, DecryptionKind.Progress, _projectId, address(0), 0);
+    }
+
+    // Process progress bucket callback
+    function processProgress(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        DecryptionRequest memory request = _fulfillDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof,
+            DecryptionKind.Progress
+        );
+        uint8 quarters = abi.decode(cleartexts, (uint8));
+
+        // The creator may have opted out while the decryption was pending
+        if (!progressPublished[request.projectId]) {
+            return;
+        }
+
+        // Callbacks may be delivered out of order, a stale bucket must not replace a newer one
+        if (requestId < progressRequestId[request.projectId]) {
+            return;
+        }
+
+        progressRequestId[request.projectId] = requestId;
+        progressPercent[request.projectId] = quarters * 25;
+        progressUpdatedAt[request.projectId] = block.timestamp;
+
+        emit ProgressPublished(request.projectId, quarters * 25);
+    }
+
     // Withdraw funds for successful project
     function withdrawFunds(uint32 _projectId)
         external
@@ -290,14 +573,40 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         project.fundsWithdrawn = true;
         project.status = ProjectStatus.Withdrawn;
 
-        // Transfer funds to creator
-        uint256 amount = address(this).balance; // Simplified for demo
-        (bool success, ) = payable(msg.sender).call{value: amount}("");
-        require(success, "Transfer failed");
+        // Release exactly this project's escrow, paid once it is decrypted
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(projectEscrows[_projectId]);
+        _requestDecryption(
+            cts,
+            this.processWithdrawal.selector,
+            DecryptionKind.Withdrawal,
+            _projectId,
+            msg.sender,
+            0
+        );
 
         emit FundsWithdrawn(_projectId, msg.sender);
     }
 
+    // Process withdrawal callback
+    function processWithdrawal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        DecryptionRequest memory request = _fulfillDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof,
+            DecryptionKind.Withdrawal
+        );
+        uint64 amount = abi.decode(cleartexts, (uint64));
+        _releaseEscrow(request, amount);
+
+        (bool success, ) = payable(request.account).call{value: amount}("");
+        require(success, "Transfer failed");
+    }
+
     // Request refund for failed project
     function requestRefund(uint32 _projectId) external projectExists(_projectId) {
         CulturalProject storage project = projects[_projectId];
@@ -309,11 +618,19 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
 
         contribution.refunded = true;
 
-        // In practice, would decrypt the contribution amount for refund
-        // For demo, using simplified refund logic
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(contribution.amount);
-        FHE.requestDecryption(cts, this.processRefund.selector);
+        if (contribution.confidential) {
+            // Move the amount from the escrow back to the deposit pool without decrypting it
+            euint64 balance = FHE.add(depositBalances[msg.sender], contribution.amount);
+            depositBalances[msg.sender] = balance;
+            FHE.allowThis(balance);
+            FHE.allow(balance, msg.sender);
+            _setEscrow(_projectId, FHE.sub(projectEscrows[_projectId], contribution.amount));
+        } else {
+            // Pay the backer exactly their contribution once it is decrypted
+            bytes32[] memory cts = new bytes32[](1);
+            cts[0] = FHE.toBytes32(contribution.amount);
+            _requestDecryption(cts, this.processRefund.selector, DecryptionKind.Refund, _projectId, msg.sender, 0);
+        }
 
         emit RefundProcessed(_projectId, msg.sender);
     }
@@ -321,15 +638,76 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
     // Process refund callback
     function processRefund(
         uint256 requestId,
-        uint64 refundAmount
+        bytes memory cleartexts,
+        bytes memory decryptionProof
     ) external {
-        require(requestId > 0, "Invalid request ID");
+        DecryptionRequest memory request = _fulfillDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof,
+            DecryptionKind.Refund
+        );
+        uint64 refundAmount = abi.decode(cleartexts, (uint64));
+        _releaseEscrow(request, refundAmount);
 
-        // Transfer refund (simplified)
-        (bool success, ) = payable(msg.sender).call{value: refundAmount}("");
+        (bool success, ) = payable(request.account).call{value: refundAmount}("");
         require(success, "Refund failed");
     }
 
+    // Request a decryption and record what it is for, so that the callback knows its project and account
+    function _requestDecryption(
+        bytes32[] memory cts,
+        bytes4 callbackSelector,
+        DecryptionKind kind,
+        uint32 _projectId,
+        address account,
+        uint64 amount
+    ) internal returns (uint256 requestId) {
+        requestId = FHE.requestDecryption(cts, callbackSelector);
+        decryptionRequests[requestId] = DecryptionRequest({
+            kind: kind,
+            projectId: _projectId,
+            account: account,
+            amount: amount,
+            fulfilled: false
+        });
+        if (_projectId != 0) {
+            projectRequests[_projectId].push(requestId);
+        }
+
+        emit DecryptionRequested(requestId, _projectId, kind);
+    }
+
+    // Accept a decryption result only once, for a known request of the expected kind, signed by the KMS
+    function _fulfillDecryption(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof,
+        DecryptionKind kind
+    ) internal returns (DecryptionRequest memory) {
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.kind == kind, "Invalid request ID");
+        require(!request.fulfilled, "Request already fulfilled");
+
+        // Reverts unless the cleartexts are the decryption of the requested handles
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        request.fulfilled = true;
+
+        return request;
+    }
+
+    // Deduct a decrypted amount from the escrow of the request's project
+    function _releaseEscrow(DecryptionRequest memory request, uint64 amount) internal {
+        _setEscrow(request.projectId, FHE.sub(projectEscrows[request.projectId], amount));
+        emit EscrowReleased(request.projectId, request.account, amount);
+    }
+
+    function _setEscrow(uint32 _projectId, euint64 escrow) internal {
+        projectEscrows[_projectId] = escrow;
+        FHE.allowThis(escrow);
+        FHE.allow(escrow, projects[_projectId].creator);
+    }
+
     // Get project information (public data only)
     function getProject(uint32 _projectId) external view projectExists(_projectId) returns (
         string memory title,
@@ -374,6 +752,59 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         );
     }
 
+    // Encrypted escrow of a project: raised amount not yet withdrawn or refunded (creator only under the ACL)
+    function getProjectEscrow(uint32 _projectId) external view projectExists(_projectId) returns (
+        bytes32 encryptedEscrow
+    ) {
+        return FHE.toBytes32(projectEscrows[_projectId]);
+    }
+
+    // Published progress bucket of a project, updatedAt is 0 until the first bucket was decrypted
+    function getPublishedProgress(uint32 _projectId) external view projectExists(_projectId) returns (
+        bool published,
+        uint8 percent,
+        uint256 updatedAt
+    ) {
+        return (progressPublished[_projectId], progressPercent[_projectId], progressUpdatedAt[_projectId]);
+    }
+
+    // Context of a decryption request
+    function getDecryptionRequest(uint256 _requestId) external view returns (
+        DecryptionKind kind,
+        uint32 projectId,
+        address account,
+        bool fulfilled
+    ) {
+        DecryptionRequest storage request = decryptionRequests[_requestId];
+        return (request.kind, request.projectId, request.account, request.fulfilled);
+    }
+
+    // Decryption requests of a project still waiting for their callback
+    function getPendingRequests(uint32 _projectId) external view projectExists(_projectId) returns (
+        uint256[] memory requestIds
+    ) {
+        uint256[] storage all = projectRequests[_projectId];
+        uint256 count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (!decryptionRequests[all[i]].fulfilled) {
+                count++;
+            }
+        }
+
+        requestIds = new uint256[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (!decryptionRequests[all[i]].fulfilled) {
+                requestIds[index++] = all[i];
+            }
+        }
+    }
+
+    // Encrypted deposit pool balance of the caller
+    function getDepositBalance() external view returns (bytes32 encryptedBalance) {
+        return FHE.toBytes32(depositBalances[msg.sender]);
+    }
+
     // Get user's projects as creator
     function getCreatorProjects(address _creator) external view returns (uint32[] memory) {
         return creatorProjects[_creator];
@@ -407,8 +838,46 @@ contract AnonymousCulturalCrowdfunding is SepoliaConfig {
         );
     }
 
+    // Every contribution of a backer to a project, oldest first
+    function getContributionHistory(uint32 _projectId, address _backer) external view returns (
+        bytes32[] memory encryptedAmounts,
+        uint256[] memory timestamps,
+        string[] memory supportMessages,
+        bool[] memory confidential
+    ) {
+        require(
+            msg.sender == _backer ||
+            msg.sender == projects[_projectId].creator ||
+            msg.sender == owner,
+            "Not authorized"
+        );
+
+        ContributionRecord[] storage history = contributionHistory[_projectId][_backer];
+        encryptedAmounts = new bytes32[](history.length);
+        timestamps = new uint256[](history.length);
+        supportMessages = new string[](history.length);
+        confidential = new bool[](history.length);
+
+        for (uint256 i = 0; i < history.length; i++) {
+            encryptedAmounts[i] = FHE.toBytes32(history[i].amount);
+            timestamps[i] = history[i].timestamp;
+            supportMessages[i] = history[i].supportMessage;
+            confidential[i] = history[i].confidential;
+        }
+    }
+
+    // Hand platform ownership to another account
+    function transferOwnership(address _newOwner) external onlyOwner {
+        require(_newOwner != address(0), "Invalid owner address");
+
+        emit OwnershipTransferred(owner, _newOwner);
+        owner = _newOwner;
+    }
+
     // Emergency functions for owner
     function emergencyPause(uint32 _projectId) external onlyOwner projectExists(_projectId) {
+        // A settled project has no escrow left to refund, or its creator is already entitled to it
+        require(projects[_projectId].status == ProjectStatus.Active, "Project not active");
         projects[_projectId].status = ProjectStatus.Failed;
     }
 
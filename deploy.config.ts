@@ -0,0 +1,48 @@
+import { vars } from "hardhat/config";
+
+/**
+ * Deploy Configuration
+ *
+ * Per-network settings of deploy/deploy.ts. Every network of hardhat.config.ts
+ * needs an entry here.
+ */
+
+export interface DeployConfig {
+  // Block confirmations to wait for before verifying on Etherscan, 0 skips the verification
+  verifyConfirmations: number;
+  // Post-deploy checks of owner, projectCounter and getPlatformStats, omitted to skip them
+  smokeTest?: {
+    // Create and finalize a throwaway project on the deployment, which needs time travel (local networks only)
+    throwawayProject: boolean;
+  };
+  // Account to hand platform ownership to once the smoke test passed
+  owner?: string;
+}
+
+// Run 'npx hardhat vars set PLATFORM_OWNER' to hand the Sepolia deployment to another account
+const SEPOLIA_OWNER: string = vars.get("PLATFORM_OWNER", "");
+
+const LOCAL: DeployConfig = {
+  verifyConfirmations: 0,
+  smokeTest: { throwawayProject: true },
+};
+
+export const DEPLOY_CONFIG: Record<string, DeployConfig> = {
+  // deployments.fixture runs the deploy script before project:simulate and project:seed, keep it empty
+  hardhat: { verifyConfirmations: 0 },
+  localhost: LOCAL,
+  anvil: LOCAL,
+  sepolia: {
+    verifyConfirmations: 6,
+    smokeTest: { throwawayProject: false },
+    owner: SEPOLIA_OWNER || undefined,
+  },
+};
+
+export function getDeployConfig(network: string): DeployConfig {
+  const config = DEPLOY_CONFIG[network];
+  if (!config) {
+    throw new Error(`No deploy configuration for network "${network}", add it to deploy.config.ts`);
+  }
+  return config;
+}
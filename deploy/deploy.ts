@@ -1,11 +1,15 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import { getDeployConfig } from "../deploy.config";
+import { handOffOwnership, printSmokeTestReport, recordDeployment, runSmokeTest } from "../tasks/DeploymentSteps";
 
 /**
  * Deploy AnonymousCulturalCrowdfunding Contract
  *
  * This script deploys the main AnonymousCulturalCrowdfunding smart contract
- * to the configured network.
+ * to the configured network and records its manifest in deployments.json.
+ * The smoke test, ownership handoff and Etherscan verification that follow
+ * are configured per network in deploy.config.ts.
  *
  * Usage:
  *   npx hardhat deploy --network localhost
@@ -14,6 +18,7 @@ import { DeployFunction } from "hardhat-deploy/types";
 const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy: deployContract } = hre.deployments;
+  const config = getDeployConfig(hre.network.name);
 
   console.log("Deploying AnonymousCulturalCrowdfunding contract...");
 
@@ -28,10 +33,29 @@ const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
     deployment.address,
   );
 
+  const manifest = await recordDeployment(hre, deployment);
+  if (manifest) {
+    console.log(`Manifest recorded for ${manifest.network} (chain ${manifest.chainId}) in deployments.json`);
+  }
+
+  if (config.smokeTest) {
+    console.log("Running the post-deploy smoke test...");
+    printSmokeTestReport(await runSmokeTest(hre, deployment.address, config.smokeTest));
+  }
+
+  if (config.owner) {
+    const receipt = await handOffOwnership(hre, deployment.address, config.owner);
+    console.log(
+      receipt
+        ? `Platform ownership transferred to ${config.owner} in ${receipt.hash}`
+        : `Platform already owned by ${config.owner}`,
+    );
+  }
+
   // Verify contract on Etherscan for public networks
-  if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
+  if (config.verifyConfirmations > 0) {
     console.log("Waiting for block confirmations before verification...");
-    await deployment.waitConfirmations?.(6);
+    await deployment.waitConfirmations?.(config.verifyConfirmations);
 
     console.log("Verifying contract on Etherscan...");
     try {
@@ -54,6 +78,8 @@ const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
   return true;
 };
 
+// Returning true needs an id, so that hardhat-deploy runs the script once per network
+deploy.id = "deploy_anonymous_cultural_crowdfunding";
 deploy.tags = ["AnonymousCulturalCrowdfunding"];
 
 export default deploy;
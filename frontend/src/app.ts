@@ -0,0 +1,14 @@
+import type { CrowdfundingClient } from "../../sdk";
+import type { TabName } from "./ui";
+import type { Wallet } from "./wallet";
+
+/**
+ * State shared by the tabs once the wallet is connected
+ */
+export interface App {
+  client: CrowdfundingClient;
+  wallet: Wallet;
+  showTab(name: TabName): void;
+  // Reload the project list of the browse tab
+  refreshProjects(): Promise<void>;
+}
@@ -0,0 +1,6 @@
+interface ImportMetaEnv {
+  // JSON-RPC endpoint used when no browser wallet is injected
+  readonly VITE_RPC_URL?: string;
+  // Registry network to use when several share the chain id (hardhat, localhost and anvil are all 31337)
+  readonly VITE_NETWORK?: string;
+}
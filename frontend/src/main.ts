@@ -0,0 +1,88 @@
+import { formatEther } from "ethers";
+import registry from "../../deployments.json";
+import {
+  CrowdfundingClient,
+  DeploymentNotFoundError,
+  getDeployment,
+  hashAbi,
+  parseDeploymentRegistry,
+} from "../../sdk";
+import { AnonymousCulturalCrowdfunding__factory } from "../../types";
+import type { App } from "./app";
+import { loadProjects, setupBrowseTab } from "./tabs/browse";
+import { setupContributeTab } from "./tabs/contribute";
+import { setupCreateTab } from "./tabs/create";
+import { setupManageTab } from "./tabs/manage";
+import { setupMyProjectsTab } from "./tabs/myProjects";
+import { setupPortfolioTab } from "./tabs/portfolio";
+import type { TabName } from "./ui";
+import { element, errorMessage, showMessage, showTab } from "./ui";
+import type { Wallet } from "./wallet";
+import { connectWallet, onWalletChange } from "./wallet";
+
+/**
+ * Anonymous Cultural Crowdfunding dApp
+ *
+ * Connects the wallet, looks up the deployment manifest of the connected chain in
+ * deployments.json and wires the tabs to the SDK client.
+ */
+
+function renderWallet(wallet: Wallet, balance: bigint): void {
+  element("walletAddress").textContent = wallet.account.substring(0, 10) + "...";
+  element("walletBalance").textContent = formatEther(balance);
+  element("walletNetwork").textContent =
+    `chain ${wallet.chainId}` + (wallet.source === "injected" ? "" : ` via ${wallet.source}`);
+  element("walletInfo").style.display = "block";
+}
+
+async function init(): Promise<void> {
+  try {
+    const wallet = await connectWallet();
+    renderWallet(wallet, await wallet.provider.getBalance(wallet.account));
+
+    const deployment = getDeployment(parseDeploymentRegistry(registry), wallet.chainId, import.meta.env.VITE_NETWORK);
+    if (deployment.abiHash && deployment.abiHash !== hashAbi(AnonymousCulturalCrowdfunding__factory.abi)) {
+      console.warn(`The ${deployment.network} deployment was compiled from a different ABI, rebuild the frontend`);
+    }
+    const contract = AnonymousCulturalCrowdfunding__factory.connect(deployment.address, wallet.signer);
+    const client = new CrowdfundingClient(contract);
+
+    const app: App = {
+      client,
+      wallet,
+      showTab: (name) => {
+        showTab(name);
+        if (name === "browse") {
+          void loadProjects(app);
+        }
+      },
+      refreshProjects: () => loadProjects(app),
+    };
+
+    document.querySelectorAll<HTMLElement>(".tab").forEach((tab) => {
+      tab.addEventListener("click", () => app.showTab(tab.dataset.tab as TabName));
+    });
+    setupBrowseTab(app);
+    setupCreateTab(app);
+    setupContributeTab(app);
+    setupMyProjectsTab(app);
+    setupPortfolioTab(app);
+    setupManageTab(app);
+
+    await loadProjects(app);
+  } catch (error: unknown) {
+    console.error("Initialization error:", error);
+    if (error instanceof DeploymentNotFoundError) {
+      showMessage(
+        `${error.message}. Run \`npx hardhat deploy --network <network>\`, which records it in ` +
+          "deployments.json, and rebuild the frontend",
+        "error",
+      );
+    } else {
+      showMessage("Failed to initialize application: " + errorMessage(error), "error");
+    }
+  }
+}
+
+window.addEventListener("load", init);
+onWalletChange(() => location.reload());
@@ -0,0 +1,127 @@
+import type { Signer } from "ethers";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+import { SepoliaConfig, createInstance, initSDK } from "@zama-fhe/relayer-sdk/web";
+import type { AmountDecryptor, AmountEncryptor } from "../../sdk";
+import { createInputEncryptor } from "../../sdk";
+import type { Wallet } from "./wallet";
+
+/**
+ * User decryption and encrypted inputs through the Zama relayer
+ *
+ * Decrypts euint64 handles the wallet is allowed to read under the contract
+ * ACL. The wallet signs one EIP-712 request per contract, which is reused for
+ * every handle until it expires. Confidential contributions are encrypted
+ * with the same relayer instance.
+ */
+
+// Chains served by a relayer, keyed by chain id
+const RELAYER_CONFIGS: Record<string, FhevmInstanceConfig> = {
+  "11155111": SepoliaConfig,
+};
+
+// Validity of the signed decryption request
+const REQUEST_DURATION_DAYS = 1;
+
+export class RelayerUnavailableError extends Error {
+  constructor(public readonly chainId: bigint) {
+    super(
+      `User decryption needs the Zama relayer and a browser wallet, which chain ${chainId} does not have. ` +
+        "On a local node, decrypt with `npx hardhat project:decrypt --id <id> --network localhost`",
+    );
+  }
+}
+
+interface DecryptionRequest {
+  keypair: { publicKey: string; privateKey: string };
+  signature: string;
+  startTimestamp: number;
+}
+
+export function isRelayerAvailable(wallet: Wallet): boolean {
+  return wallet.source === "injected" && wallet.chainId.toString() in RELAYER_CONFIGS;
+}
+
+async function signRequest(
+  instance: FhevmInstance,
+  signer: Signer,
+  contractAddress: string,
+): Promise<DecryptionRequest> {
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, REQUEST_DURATION_DAYS);
+
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message,
+  );
+
+  return { keypair, signature, startTimestamp };
+}
+
+let sessionInstance: Promise<FhevmInstance> | undefined;
+let sessionDecryptor: Promise<AmountDecryptor> | undefined;
+
+async function createRelayerInstance(wallet: Wallet): Promise<FhevmInstance> {
+  const config = RELAYER_CONFIGS[wallet.chainId.toString()];
+  if (!config || !window.ethereum) {
+    throw new RelayerUnavailableError(wallet.chainId);
+  }
+
+  await initSDK();
+  return createInstance({ ...config, network: window.ethereum });
+}
+
+function getRelayerInstance(wallet: Wallet): Promise<FhevmInstance> {
+  if (!sessionInstance) {
+    sessionInstance = createRelayerInstance(wallet);
+    sessionInstance.catch(() => (sessionInstance = undefined));
+  }
+  return sessionInstance;
+}
+
+async function createRelayerDecryptor(wallet: Wallet): Promise<AmountDecryptor> {
+  const instance = await getRelayerInstance(wallet);
+  const requests = new Map<string, Promise<DecryptionRequest>>();
+
+  return async (handle, contractAddress) => {
+    let request = requests.get(contractAddress);
+    if (!request) {
+      request = signRequest(instance, wallet.signer, contractAddress);
+      requests.set(contractAddress, request);
+      // Ask for a new signature next time when the wallet rejected this one
+      request.catch(() => requests.delete(contractAddress));
+    }
+    const { keypair, signature, startTimestamp } = await request;
+
+    const results = await instance.userDecrypt(
+      [{ handle, contractAddress }],
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace("0x", ""),
+      [contractAddress],
+      wallet.account,
+      startTimestamp,
+      REQUEST_DURATION_DAYS,
+    );
+    return BigInt(results[handle] as bigint | string);
+  };
+}
+
+/**
+ * Decryptor shared by the tabs for the page session, set up again after a failure
+ */
+export function getRelayerDecryptor(wallet: Wallet): Promise<AmountDecryptor> {
+  if (!sessionDecryptor) {
+    sessionDecryptor = createRelayerDecryptor(wallet);
+    sessionDecryptor.catch(() => (sessionDecryptor = undefined));
+  }
+  return sessionDecryptor;
+}
+
+/**
+ * Encryptor of confidential contributions, the relayer instance builds the input proof
+ */
+export async function getRelayerEncryptor(wallet: Wallet): Promise<AmountEncryptor> {
+  return createInputEncryptor(await getRelayerInstance(wallet));
+}
@@ -0,0 +1,96 @@
+import type { Project, PublishedProgress } from "../../../sdk";
+import { ProjectStatus } from "../../../sdk";
+import type { App } from "../app";
+import { element, errorMessage, escapeHtml, showMessage, statusName } from "../ui";
+
+const MAX_LISTED_PROJECTS = 20;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+interface ListedProject {
+  project: Project;
+  progress?: PublishedProgress;
+}
+
+function renderProgress(progress?: PublishedProgress): string {
+  if (!progress) {
+    return '<p class="project-meta">🔒 Progress is private</p>';
+  }
+  return `
+    <p class="project-meta">📊 ${progress.percent}% of the goal or more</p>
+    <div class="progress-bar"><div class="progress-fill" style="width: ${progress.percent}%"></div></div>
+  `;
+}
+
+function renderProject({ project, progress }: ListedProject): string {
+  const isActive = project.status === ProjectStatus.Active;
+  const daysLeft = Math.ceil(Math.max(0, project.deadline.getTime() - Date.now()) / MS_PER_DAY);
+  const status = statusName(project.status);
+
+  return `
+    <div class="project-card">
+      <div class="project-header">
+        <h3 class="project-title">${escapeHtml(project.title)}</h3>
+        <span class="project-category">${escapeHtml(project.category)}</span>
+      </div>
+
+      <p class="project-description">${escapeHtml(project.description)}</p>
+
+      ${renderProgress(progress)}
+
+      <div class="project-stats">
+        <div class="stat-item">
+          <div class="stat-value">${project.backerCount}</div>
+          <div class="stat-label">Backers</div>
+        </div>
+        <div class="stat-item">
+          <div class="stat-value">${daysLeft}</div>
+          <div class="stat-label">Days Left</div>
+        </div>
+        <div class="stat-item">
+          <span class="status-badge status-${status.toLowerCase()}">${status}</span>
+        </div>
+      </div>
+
+      <small class="project-meta">
+        Project ID: ${project.id} |
+        Creator: ${project.creator.substring(0, 10)}... |
+        Created: ${project.createdAt.toLocaleDateString()}
+      </small>
+
+      ${isActive ? `<button data-contribute="${project.id}" class="btn">💝 Support This Project</button>` : ""}
+    </div>
+  `;
+}
+
+export async function loadProjects(app: App): Promise<void> {
+  const loading = element("loadingProjects");
+  const list = element("projectsList");
+
+  try {
+    loading.style.display = "block";
+    list.style.display = "none";
+
+    const { items } = await app.client.listProjects({ limit: MAX_LISTED_PROJECTS });
+    const listed = await Promise.all(
+      items.map(async (project) => ({ project, progress: await app.client.getPublishedProgress(project.id) })),
+    );
+    list.innerHTML = listed.map(renderProject).join("");
+    list.style.display = "grid";
+  } catch (error: unknown) {
+    console.error("Failed to load projects:", error);
+    showMessage("Failed to load projects: " + errorMessage(error), "error");
+  } finally {
+    loading.style.display = "none";
+  }
+}
+
+export function setupBrowseTab(app: App): void {
+  // Quick contribute from a project card
+  element("projectsList").addEventListener("click", (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>("[data-contribute]");
+    if (button) {
+      app.showTab("contribute");
+      element<HTMLInputElement>("contributeProjectId").value = button.dataset.contribute!;
+    }
+  });
+}
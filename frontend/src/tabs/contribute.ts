@@ -0,0 +1,95 @@
+import { formatAmount, parseAmount } from "../../../sdk";
+import type { App } from "../app";
+import { getRelayerDecryptor, getRelayerEncryptor } from "../relayer";
+import { element, errorMessage, inputValue, readProjectId, showMessage } from "../ui";
+
+async function contribute(app: App, projectId: number, amount: bigint, supportMessage: string): Promise<void> {
+  if (!element<HTMLInputElement>("contributeConfidentially").checked) {
+    showMessage("Processing contribution... Please confirm the transaction", "info");
+    await app.client.contribute(projectId, amount, supportMessage);
+    return;
+  }
+
+  // An amount above the pool balance would silently contribute 0
+  const client = app.client.connect(app.wallet.signer, {
+    decryptor: await getRelayerDecryptor(app.wallet),
+    encryptor: await getRelayerEncryptor(app.wallet),
+  });
+  const balance = await client.decryptDepositBalance();
+  if (balance < amount) {
+    throw new Error(`Your deposit pool holds ${formatAmount(balance)} ETH, deposit more first`);
+  }
+
+  showMessage("Encrypting contribution... Please confirm the transaction", "info");
+  await client.contributeConfidentially(projectId, amount, supportMessage);
+}
+
+function setupDepositPool(app: App): void {
+  const form = element<HTMLFormElement>("depositForm");
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    try {
+      const amount = parseAmount(inputValue("depositAmount"));
+      showMessage("Processing deposit... Please confirm the transaction", "info");
+      await app.client.deposit(amount);
+      showMessage(`💰 Deposited ${formatAmount(amount)} ETH`, "success");
+      form.reset();
+    } catch (error: unknown) {
+      console.error("Deposit failed:", error);
+      showMessage("Failed to deposit: " + errorMessage(error), "error");
+    }
+  });
+
+  element("withdrawDeposit").addEventListener("click", async () => {
+    try {
+      const amount = parseAmount(inputValue("depositAmount"));
+      showMessage("Processing withdrawal... Please confirm the transaction", "info");
+      await app.client.withdrawDeposit(amount);
+      showMessage("↩️ Withdrawal requested, the ETH arrives once the balance was checked", "success");
+      form.reset();
+    } catch (error: unknown) {
+      console.error("Withdrawal failed:", error);
+      showMessage("Failed to withdraw: " + errorMessage(error), "error");
+    }
+  });
+
+  element("revealDepositBalance").addEventListener("click", async () => {
+    try {
+      showMessage("Decrypting balance... Please sign the decryption request", "info");
+      const client = app.client.connect(app.wallet.signer, { decryptor: await getRelayerDecryptor(app.wallet) });
+      element("depositBalance").textContent = formatAmount(await client.decryptDepositBalance());
+    } catch (error: unknown) {
+      console.error("Decryption failed:", error);
+      showMessage("Failed to decrypt your balance: " + errorMessage(error), "error");
+    }
+  });
+}
+
+export function setupContributeTab(app: App): void {
+  const form = element<HTMLFormElement>("contributeForm");
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+
+    const projectId = readProjectId("contributeProjectId");
+    if (projectId === undefined) {
+      return;
+    }
+
+    try {
+      const amount = parseAmount(inputValue("contributionAmount"));
+
+      await contribute(app, projectId, amount, inputValue("supportMessage"));
+      showMessage("❤️ Contribution submitted anonymously!", "success");
+
+      form.reset();
+      await app.refreshProjects();
+    } catch (error: unknown) {
+      console.error("Contribution failed:", error);
+      showMessage("Failed to contribute: " + errorMessage(error), "error");
+    }
+  });
+
+  setupDepositPool(app);
+}
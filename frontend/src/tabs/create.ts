@@ -0,0 +1,35 @@
+import { daysToSeconds, parseAmount } from "../../../sdk";
+import type { App } from "../app";
+import { element, errorMessage, inputValue, showMessage } from "../ui";
+
+// Kept from the original page, the contract accepts an empty hash as well
+const DEFAULT_METADATA_HASH = "QmDefault";
+
+export function setupCreateTab(app: App): void {
+  const form = element<HTMLFormElement>("createProjectForm");
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+
+    try {
+      const params = {
+        title: inputValue("projectTitle"),
+        category: inputValue("projectCategory"),
+        description: inputValue("projectDescription"),
+        target: parseAmount(inputValue("fundingTarget")),
+        fundingPeriod: daysToSeconds(Number(inputValue("fundingPeriod"))),
+        metadataHash: inputValue("metadataHash") || DEFAULT_METADATA_HASH,
+      };
+
+      showMessage("Creating project... Please confirm the transaction", "info");
+      const { projectId } = await app.client.createProject(params);
+      showMessage(`🎉 Project #${projectId} created successfully!`, "success");
+
+      form.reset();
+      await app.refreshProjects();
+    } catch (error: unknown) {
+      console.error("Project creation failed:", error);
+      showMessage("Failed to create project: " + errorMessage(error), "error");
+    }
+  });
+}
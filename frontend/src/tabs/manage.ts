@@ -0,0 +1,70 @@
+import type { ContractTransactionReceipt } from "ethers";
+import type { App } from "../app";
+import { element, errorMessage, readProjectId, showMessage, statusName } from "../ui";
+
+interface ProjectAction {
+  pending: string;
+  done: string;
+  failed: string;
+  run(projectId: number): Promise<ContractTransactionReceipt>;
+}
+
+function bindAction(buttonId: string, action: ProjectAction): void {
+  element(buttonId).addEventListener("click", async () => {
+    const projectId = readProjectId("manageProjectId");
+    if (projectId === undefined) {
+      return;
+    }
+
+    try {
+      showMessage(`${action.pending}... Please confirm the transaction`, "info");
+      await action.run(projectId);
+      showMessage(action.done, "success");
+    } catch (error: unknown) {
+      console.error(`${action.failed}:`, error);
+      showMessage(`${action.failed}: ${errorMessage(error)}`, "error");
+    }
+  });
+}
+
+export function setupManageTab(app: App): void {
+  bindAction("finalizeProject", {
+    pending: "Finalizing project",
+    done: "✅ Project finalized successfully!",
+    failed: "Failed to finalize project",
+    run: (projectId) => app.client.finalize(projectId),
+  });
+
+  bindAction("withdrawFunds", {
+    pending: "Withdrawing funds",
+    done: "💰 Funds withdrawn successfully!",
+    failed: "Failed to withdraw funds",
+    run: (projectId) => app.client.withdraw(projectId),
+  });
+
+  bindAction("requestRefund", {
+    pending: "Requesting refund",
+    done: "🔄 Refund requested successfully!",
+    failed: "Failed to request refund",
+    run: (projectId) => app.client.refund(projectId),
+  });
+
+  element("checkProjectStatus").addEventListener("click", async () => {
+    const projectId = readProjectId("manageProjectId");
+    if (projectId === undefined) {
+      return;
+    }
+
+    try {
+      const project = await app.client.getProject(projectId);
+      showMessage(
+        `📊 Project Status: ${statusName(project.status)} | Backers: ${project.backerCount} | ` +
+          `Deadline: ${project.deadline.toLocaleDateString()}`,
+        "info",
+      );
+    } catch (error: unknown) {
+      console.error("Status check failed:", error);
+      showMessage("Failed to check project status: " + errorMessage(error), "error");
+    }
+  });
+}
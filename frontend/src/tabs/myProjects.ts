@@ -0,0 +1,213 @@
+import type { ActionCheck, DecryptionRequest, Project, PublishedProgress, StatusChange } from "../../../sdk";
+import { ProjectStatus, checkFinalize, checkWithdraw, formatAmount } from "../../../sdk";
+import type { App } from "../app";
+import { RelayerUnavailableError, getRelayerDecryptor, isRelayerAvailable } from "../relayer";
+import { element, errorMessage, escapeHtml, showMessage, statusName } from "../ui";
+
+/**
+ * Creator dashboard
+ *
+ * One card per project of the connected account, with a deadline countdown,
+ * the status timeline from the contract events, user-decrypted progress and
+ * the finalize / withdraw actions, enabled only when they would not revert.
+ */
+
+const COUNTDOWN_INTERVAL_MS = 1000;
+
+const EVENT_LABELS: Record<StatusChange["event"], string> = {
+  ProjectCreated: "🚀 Created",
+  ProjectFunded: "🎉 Funded",
+  ProjectFailed: "❌ Failed",
+  FundsWithdrawn: "💰 Funds withdrawn",
+};
+
+let countdown: ReturnType<typeof setInterval> | undefined;
+
+function formatCountdown(milliseconds: number): string {
+  if (milliseconds <= 0) {
+    return "Deadline reached";
+  }
+  const seconds = Math.floor(milliseconds / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${days}d ${hours}h ${minutes}m ${seconds % 60}s`;
+}
+
+function renderTimeline(project: Project, history: StatusChange[]): string {
+  const entries = history.map(
+    (change) => `<li>${EVENT_LABELS[change.event]} <small>${change.timestamp.toLocaleString()}</small></li>`,
+  );
+  if (project.status === ProjectStatus.Active) {
+    entries.push(`<li class="pending">⏰ Deadline <small>${project.deadline.toLocaleString()}</small></li>`);
+  }
+  return `<ol class="timeline">${entries.join("")}</ol>`;
+}
+
+function renderAction(action: string, label: string, check: ActionCheck): string {
+  return check.allowed
+    ? `<button class="btn" data-action="${action}">${label}</button>`
+    : `<button class="btn" data-action="${action}" disabled title="${escapeHtml(check.hint)}">${label}</button>`;
+}
+
+interface DashboardEntry {
+  project: Project;
+  history: StatusChange[];
+  pending: DecryptionRequest[];
+  progress?: PublishedProgress;
+}
+
+function renderDashboard(app: App, { project, history, pending, progress }: DashboardEntry, now: Date): string {
+  const status = statusName(project.status);
+  const revealable = isRelayerAvailable(app.wallet);
+
+  return `
+    <div class="project-card" data-project="${project.id}">
+      <div class="project-header">
+        <h3 class="project-title">#${project.id} ${escapeHtml(project.title)}</h3>
+        <span class="status-badge status-${status.toLowerCase()}">${status}</span>
+      </div>
+
+      <div class="project-stats">
+        <div class="stat-item">
+          <div class="stat-value">${project.backerCount}</div>
+          <div class="stat-label">Backers</div>
+        </div>
+        <div class="stat-item">
+          <div class="stat-value" data-deadline="${project.deadline.getTime()}">
+            ${formatCountdown(project.deadline.getTime() - now.getTime())}
+          </div>
+          <div class="stat-label">Until Deadline</div>
+        </div>
+      </div>
+
+      <div data-progress>
+        <p class="project-meta">🔒 Raised amount and target are encrypted</p>
+        ${
+          revealable
+            ? '<button class="btn" data-action="reveal">🔓 Reveal Progress</button>'
+            : `<button class="btn" data-action="reveal" disabled
+                title="${escapeHtml(new RelayerUnavailableError(app.wallet.chainId).message)}">
+                🔓 Reveal Progress
+              </button>`
+        }
+      </div>
+
+      ${renderTimeline(project, history)}
+
+      <div class="actions-grid">
+        ${renderAction("finalize", "⏰ Finalize", checkFinalize(project, now, pending))}
+        ${renderAction("withdraw", "💰 Withdraw", checkWithdraw(project, app.wallet.account))}
+        ${
+          progress
+            ? `<button class="btn" data-action="unpublish">🙈 Hide Progress (${progress.percent}%)</button>`
+            : '<button class="btn" data-action="publish" title="Only the 25% bucket reached is decrypted">' +
+              "📊 Publish Progress</button>"
+        }
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Tick the countdowns against the chain clock, which runs ahead of the wall clock after time travel
+ */
+function startCountdown(chainOffset: number): void {
+  clearInterval(countdown);
+  countdown = setInterval(() => {
+    document.querySelectorAll<HTMLElement>("[data-deadline]").forEach((cell) => {
+      cell.textContent = formatCountdown(Number(cell.dataset.deadline) - (Date.now() + chainOffset));
+    });
+  }, COUNTDOWN_INTERVAL_MS);
+}
+
+export async function loadMyProjects(app: App): Promise<void> {
+  const list = element("myProjectsList");
+
+  try {
+    const [ids, now] = await Promise.all([
+      app.client.getCreatorProjectIds(app.wallet.account),
+      app.client.getChainTime(),
+    ]);
+    const projects = await app.client.getProjects(ids);
+    const entries = await Promise.all(
+      projects.map(async (project) => ({
+        project,
+        history: await app.client.getStatusHistory(project.id),
+        pending: await app.client.getPendingRequests(project.id),
+        progress: await app.client.getPublishedProgress(project.id),
+      })),
+    );
+
+    list.innerHTML =
+      entries.map((entry) => renderDashboard(app, entry, now)).join("") ||
+      '<p class="empty-state">No projects found</p>';
+    startCountdown(now.getTime() - Date.now());
+  } catch (error: unknown) {
+    console.error("Failed to load my projects:", error);
+    showMessage("Failed to load your projects: " + errorMessage(error), "error");
+  }
+}
+
+async function revealProgress(app: App, projectId: number, card: HTMLElement): Promise<void> {
+  const client = app.client.connect(app.wallet.signer, { decryptor: await getRelayerDecryptor(app.wallet) });
+  const { target, raised } = await client.decryptProjectAmounts(projectId);
+  const percent = target === 0n ? 0 : Number((raised * 100n) / target);
+
+  card.querySelector("[data-progress]")!.innerHTML = `
+    <p class="project-meta">${formatAmount(raised)} / ${formatAmount(target)} ETH raised (${percent}%)</p>
+    <div class="progress-bar"><div class="progress-fill" style="width: ${Math.min(percent, 100)}%"></div></div>
+  `;
+}
+
+async function runAction(app: App, action: string, projectId: number, card: HTMLElement): Promise<void> {
+  switch (action) {
+    case "reveal":
+      showMessage("Decrypting progress... Please sign the decryption request", "info");
+      await revealProgress(app, projectId, card);
+      return;
+    case "finalize":
+      showMessage("Finalizing project... Please confirm the transaction", "info");
+      await app.client.finalize(projectId);
+      showMessage("✅ Finalization requested, the status updates once the goal check is decrypted", "success");
+      break;
+    case "publish":
+    case "unpublish":
+      showMessage("Updating progress publishing... Please confirm the transaction", "info");
+      await app.client.setProgressPublished(projectId, action === "publish");
+      showMessage(
+        action === "publish"
+          ? "📊 Progress bucket requested, backers see it once it is decrypted"
+          : "🙈 Progress is private again",
+        "success",
+      );
+      break;
+    case "withdraw":
+      showMessage("Withdrawing funds... Please confirm the transaction", "info");
+      await app.client.withdraw(projectId);
+      showMessage("💰 Withdrawal requested, the escrow is paid out once it was decrypted", "success");
+      break;
+  }
+  await loadMyProjects(app);
+}
+
+export function setupMyProjectsTab(app: App): void {
+  element("loadMyProjects").addEventListener("click", () => loadMyProjects(app));
+
+  element("myProjectsList").addEventListener("click", async (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>("button[data-action]");
+    const card = button?.closest<HTMLElement>("[data-project]");
+    if (!button || !card || button.disabled) {
+      return;
+    }
+
+    button.disabled = true;
+    try {
+      await runAction(app, button.dataset.action!, Number(card.dataset.project), card);
+    } catch (error: unknown) {
+      console.error(`Dashboard action ${button.dataset.action} failed:`, error);
+      showMessage(errorMessage(error), "error");
+      button.disabled = false;
+    }
+  });
+}
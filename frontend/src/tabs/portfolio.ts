@@ -0,0 +1,118 @@
+import type { PortfolioEntry } from "../../../sdk";
+import { checkRefund, formatAmount } from "../../../sdk";
+import type { App } from "../app";
+import { RelayerUnavailableError, getRelayerDecryptor, isRelayerAvailable } from "../relayer";
+import { element, errorMessage, escapeHtml, showMessage, statusName } from "../ui";
+
+/**
+ * Backer portfolio
+ *
+ * Every project the connected account backed, with its own contribution,
+ * decrypted on request (the contract grants the backer access to its amount),
+ * and a refund button for failed projects.
+ */
+
+function renderEntry({ project, contribution }: PortfolioEntry): string {
+  const status = statusName(project.status);
+  const refund = checkRefund(project, contribution);
+
+  return `
+    <div class="project-card" data-project="${project.id}" data-handle="${contribution.encryptedAmount}">
+      <div class="project-header">
+        <h3 class="project-title">#${project.id} ${escapeHtml(project.title)}</h3>
+        <span class="status-badge status-${status.toLowerCase()}">${status}</span>
+      </div>
+
+      <div class="project-stats">
+        <div class="stat-item">
+          <div class="stat-value" data-amount>🔒</div>
+          <div class="stat-label">Your Contribution (ETH)</div>
+        </div>
+        <div class="stat-item">
+          <div class="stat-value">${contribution.refunded ? "Yes" : "No"}</div>
+          <div class="stat-label">Refunded</div>
+        </div>
+      </div>
+
+      <small class="project-meta">
+        Contributed: ${contribution.timestamp.toLocaleString()}
+        ${contribution.supportMessage ? ` | "${escapeHtml(contribution.supportMessage)}"` : ""}
+      </small>
+
+      ${
+        refund.allowed
+          ? '<button class="btn" data-action="refund">🔄 Request Refund</button>'
+          : `<button class="btn" data-action="refund" disabled title="${escapeHtml(refund.hint)}">
+               🔄 Request Refund
+             </button>`
+      }
+    </div>
+  `;
+}
+
+export async function loadPortfolio(app: App): Promise<void> {
+  const list = element("portfolioList");
+  const reveal = element<HTMLButtonElement>("revealContributions");
+
+  try {
+    const portfolio = await app.client.getPortfolio(app.wallet.account);
+    list.innerHTML = portfolio.map(renderEntry).join("") || '<p class="empty-state">No backed projects yet</p>';
+
+    reveal.disabled = portfolio.length === 0 || !isRelayerAvailable(app.wallet);
+    reveal.title = isRelayerAvailable(app.wallet) ? "" : new RelayerUnavailableError(app.wallet.chainId).message;
+  } catch (error: unknown) {
+    console.error("Failed to load portfolio:", error);
+    showMessage("Failed to load your portfolio: " + errorMessage(error), "error");
+  }
+}
+
+/**
+ * Decrypt every contribution with a single signed decryption request
+ */
+async function revealContributions(app: App): Promise<void> {
+  const client = app.client.connect(app.wallet.signer, { decryptor: await getRelayerDecryptor(app.wallet) });
+  let total = 0n;
+
+  for (const card of element("portfolioList").querySelectorAll<HTMLElement>("[data-handle]")) {
+    const amount = await client.decryptAmount(card.dataset.handle!);
+    card.querySelector("[data-amount]")!.textContent = formatAmount(amount);
+    total += amount;
+  }
+
+  showMessage(`💼 You contributed ${formatAmount(total)} ETH in total`, "info");
+}
+
+export function setupPortfolioTab(app: App): void {
+  element("loadPortfolio").addEventListener("click", () => loadPortfolio(app));
+
+  element("revealContributions").addEventListener("click", async () => {
+    try {
+      showMessage("Decrypting contributions... Please sign the decryption request", "info");
+      await revealContributions(app);
+    } catch (error: unknown) {
+      console.error("Failed to decrypt contributions:", error);
+      showMessage("Failed to decrypt your contributions: " + errorMessage(error), "error");
+    }
+  });
+
+  element("portfolioList").addEventListener("click", async (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>("button[data-action=refund]");
+    const card = button?.closest<HTMLElement>("[data-project]");
+    if (!button || !card || button.disabled) {
+      return;
+    }
+
+    const projectId = Number(card.dataset.project);
+    button.disabled = true;
+    try {
+      showMessage("Requesting refund... Please confirm the transaction", "info");
+      await app.client.refund(projectId);
+      showMessage(`🔄 Refund requested for project #${projectId}!`, "success");
+      await loadPortfolio(app);
+    } catch (error: unknown) {
+      console.error("Refund request failed:", error);
+      showMessage("Failed to request refund: " + errorMessage(error), "error");
+      button.disabled = false;
+    }
+  });
+}
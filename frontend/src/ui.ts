@@ -0,0 +1,76 @@
+import { CrowdfundingRevertError, ProjectStatus } from "../../sdk";
+
+/**
+ * DOM helpers shared by the tabs
+ */
+
+export type TabName = "browse" | "create" | "contribute" | "myProjects" | "portfolio" | "manage";
+export type MessageType = "info" | "success" | "error";
+
+const MESSAGE_DURATION_MS = 5000;
+
+export function element<T extends HTMLElement = HTMLElement>(id: string): T {
+  const found = document.getElementById(id);
+  if (!found) {
+    throw new Error(`Missing element #${id}`);
+  }
+  return found as T;
+}
+
+export function inputValue(id: string): string {
+  return element<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>(id).value.trim();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function showTab(name: TabName): void {
+  document.querySelectorAll(".tab-content").forEach((content) => content.classList.remove("active"));
+  document.querySelectorAll<HTMLElement>(".tab").forEach((tab) => {
+    tab.classList.toggle("active", tab.dataset.tab === name);
+  });
+  element(`${name}Tab`).classList.add("active");
+}
+
+export function showMessage(message: string, type: MessageType): void {
+  const messageDiv = document.createElement("div");
+  messageDiv.className = type === "error" ? "error-message" : type === "success" ? "success-message" : "wallet-info";
+  const paragraph = document.createElement("p");
+  paragraph.textContent = message;
+  messageDiv.appendChild(paragraph);
+
+  document.body.insertBefore(messageDiv, document.body.firstChild);
+  setTimeout(() => messageDiv.remove(), MESSAGE_DURATION_MS);
+}
+
+/**
+ * Describe a failure for the user, with the catalogue hint for known reverts
+ */
+export function errorMessage(error: unknown): string {
+  if (error instanceof CrowdfundingRevertError) {
+    return `${error.reason}. ${error.hint}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function statusName(status: ProjectStatus): string {
+  return ProjectStatus[status] ?? "Unknown";
+}
+
+/**
+ * Read a project id input, reporting an error when it is empty or invalid
+ */
+export function readProjectId(id: string): number | undefined {
+  const projectId = Number(inputValue(id));
+  if (!Number.isInteger(projectId) || projectId < 1) {
+    showMessage("Please enter a project ID", "error");
+    return undefined;
+  }
+  return projectId;
+}
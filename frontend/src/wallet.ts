@@ -0,0 +1,57 @@
+import type { Eip1193Provider, Signer } from "ethers";
+import { BrowserProvider, JsonRpcProvider } from "ethers";
+
+/**
+ * Wallet connection
+ *
+ * Uses the injected wallet (MetaMask) when there is one, otherwise the unlocked
+ * accounts of a local node such as `npx hardhat node`, so the app works offline.
+ */
+
+interface InjectedProvider extends Eip1193Provider {
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: InjectedProvider;
+  }
+}
+
+export const LOCAL_RPC_URL: string = import.meta.env.VITE_RPC_URL ?? "http://127.0.0.1:8545";
+
+export interface Wallet {
+  provider: BrowserProvider | JsonRpcProvider;
+  signer: Signer;
+  account: string;
+  chainId: bigint;
+  // "injected" for a browser wallet, otherwise the URL of the local node
+  source: string;
+}
+
+export async function connectWallet(): Promise<Wallet> {
+  let provider: BrowserProvider | JsonRpcProvider;
+  let source: string;
+
+  if (window.ethereum) {
+    provider = new BrowserProvider(window.ethereum);
+    await provider.send("eth_requestAccounts", []);
+    source = "injected";
+  } else {
+    provider = new JsonRpcProvider(LOCAL_RPC_URL);
+    source = LOCAL_RPC_URL;
+  }
+
+  const signer = await provider.getSigner();
+  const { chainId } = await provider.getNetwork();
+
+  return { provider, signer, account: await signer.getAddress(), chainId, source };
+}
+
+/**
+ * Call back when the injected wallet switches account or chain
+ */
+export function onWalletChange(listener: () => void): void {
+  window.ethereum?.on?.("accountsChanged", listener);
+  window.ethereum?.on?.("chainChanged", listener);
+}
@@ -0,0 +1,24 @@
+import * as path from "path";
+import { defineConfig } from "vite";
+
+/**
+ * Frontend build
+ *
+ * Bundles the dApp with ethers, the SDK and the TypeChain contract types, so
+ * it runs without any CDN. Run `npx hardhat compile` first to generate types/.
+ *
+ * Usage:
+ *   npx vite frontend            # dev server on http://localhost:5173
+ *   npx vite build frontend      # static build in frontend/dist
+ */
+export default defineConfig({
+  root: __dirname,
+  build: {
+    outDir: path.join(__dirname, "dist"),
+    emptyOutDir: true,
+  },
+  server: {
+    // The SDK, types/ and deployments.json live outside the frontend root
+    fs: { allow: [path.join(__dirname, "..")] },
+  },
+});
@@ -10,6 +10,10 @@ import { vars } from "hardhat/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/Api";
+import "./tasks/Deployments";
+import "./tasks/Indexer";
+import "./tasks/Notifier";
 import "./tasks/ProjectManager";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
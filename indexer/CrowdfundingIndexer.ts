@@ -0,0 +1,212 @@
+import type { Log, Provider } from "ethers";
+import type { AnonymousCulturalCrowdfunding } from "../types";
+import type { IndexStore } from "./IndexStore";
+import type { BlockRef, IndexedEvent, IndexedEventName } from "./types";
+
+/**
+ * Crowdfunding Indexer
+ *
+ * Ingests the events of the crowdfunding contract into an IndexStore.
+ * Each sync first checks that the last indexed block is still part of the
+ * chain; after a reorg (or a restarted anvil / hardhat node) it rolls back
+ * to the most recent block whose hash still matches and indexes forward again.
+ *
+ * Usage:
+ *   const indexer = new CrowdfundingIndexer(contract, provider, store);
+ *   await indexer.sync();
+ */
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+const INDEXED_EVENTS: readonly IndexedEventName[] = [
+  "ProjectCreated",
+  "AnonymousContributionMade",
+  "ProjectFunded",
+  "ProjectFailed",
+  "RefundProcessed",
+  "FundsWithdrawn",
+];
+
+export interface CrowdfundingIndexerOptions {
+  // Number of blocks requested per getLogs call
+  batchSize?: number;
+  // Called with every batch that was written to the store
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncProgress {
+  fromBlock: number;
+  toBlock: number;
+  head: number;
+  events: number;
+}
+
+export interface SyncResult {
+  head?: BlockRef;
+  events: number;
+  // Block the index was rolled back to, when a reorg was detected
+  reorgedTo?: number;
+}
+
+export class CrowdfundingIndexer {
+  private readonly blockCache = new Map<number, BlockRef & { timestamp: number }>();
+
+  constructor(
+    private readonly contract: AnonymousCulturalCrowdfunding,
+    private readonly provider: Provider,
+    public readonly store: IndexStore,
+    private readonly options: CrowdfundingIndexerOptions = {},
+  ) {}
+
+  /**
+   * Index every block up to the current chain head
+   */
+  async sync(): Promise<SyncResult> {
+    const result: SyncResult = { events: 0 };
+    const reorgedTo = await this.handleReorg();
+    if (reorgedTo !== undefined) {
+      result.reorgedTo = reorgedTo;
+    }
+
+    const head = await this.provider.getBlockNumber();
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const address = await this.contract.getAddress();
+    let fromBlock = (this.store.head?.number ?? this.store.database.startBlock - 1) + 1;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      const logs = await this.provider.getLogs({ address, fromBlock, toBlock });
+
+      const events: IndexedEvent[] = [];
+      for (const log of logs) {
+        const event = await this.toIndexedEvent(log);
+        if (event) {
+          events.push(event);
+        }
+      }
+
+      const blocks = await Promise.all(
+        [...new Set(logs.map((log) => log.blockNumber))].map((blockNumber) => this.getBlock(blockNumber)),
+      );
+      const last = await this.getBlock(toBlock);
+      this.store.append(
+        events,
+        blocks.map(({ number, hash }) => ({ number, hash })),
+        { number: last.number, hash: last.hash },
+      );
+      this.store.save();
+
+      result.events += events.length;
+      this.options.onProgress?.({ fromBlock, toBlock, head, events: events.length });
+      fromBlock = toBlock + 1;
+    }
+
+    result.head = this.store.head;
+    return result;
+  }
+
+  /**
+   * Keep syncing until the signal is aborted
+   */
+  async run(interval: number, signal?: AbortSignal, onError?: (error: unknown) => void): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        await this.sync();
+      } catch (error: unknown) {
+        if (!onError) {
+          throw error;
+        }
+        onError(error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Roll the store back when its head is no longer part of the chain
+   * @returns the block the store was rolled back to, if any
+   */
+  private async handleReorg(): Promise<number | undefined> {
+    const indexedHead = this.store.head;
+    if (!indexedHead || (await this.isCanonical(indexedHead))) {
+      return undefined;
+    }
+
+    this.blockCache.clear();
+    const candidates = [...this.store.recentBlocks].reverse();
+    for (const block of candidates) {
+      if (block.number < indexedHead.number && (await this.isCanonical(block))) {
+        this.store.rollback(block.number);
+        this.store.save();
+        return block.number;
+      }
+    }
+
+    // No common ancestor in the recent blocks, reindex from scratch
+    const restart = this.store.database.startBlock - 1;
+    this.store.rollback(restart);
+    this.store.save();
+    return restart;
+  }
+
+  private async isCanonical(block: BlockRef): Promise<boolean> {
+    const current = await this.provider.getBlock(block.number);
+    return current?.hash === block.hash;
+  }
+
+  private async getBlock(blockNumber: number): Promise<BlockRef & { timestamp: number }> {
+    let block = this.blockCache.get(blockNumber);
+    if (!block) {
+      const fetched = await this.provider.getBlock(blockNumber);
+      if (!fetched?.hash) {
+        throw new Error(`Block ${blockNumber} not found`);
+      }
+      block = { number: fetched.number, hash: fetched.hash, timestamp: fetched.timestamp };
+      this.blockCache.set(blockNumber, block);
+    }
+    return block;
+  }
+
+  private async toIndexedEvent(log: Log): Promise<IndexedEvent | undefined> {
+    let parsed;
+    try {
+      parsed = this.contract.interface.parseLog(log);
+    } catch {
+      return undefined;
+    }
+    if (!parsed || !INDEXED_EVENTS.includes(parsed.name as IndexedEventName)) {
+      return undefined;
+    }
+
+    const block = await this.getBlock(log.blockNumber);
+    const event: IndexedEvent = {
+      name: parsed.name as IndexedEventName,
+      projectId: Number(parsed.args.projectId),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: block.timestamp,
+    };
+
+    // The creator or the backer, every event names at most one account
+    const account = parsed.fragment.inputs.find((input) => input.type === "address");
+    if (account) {
+      event.account = parsed.args[account.name];
+    }
+
+    if (parsed.name === "ProjectCreated") {
+      // description and metadataHash are not part of the event
+      const project = await this.contract.getProject(event.projectId, { blockTag: log.blockNumber });
+      event.project = {
+        title: project.title,
+        description: project.description,
+        category: project.category,
+        metadataHash: project.metadataHash,
+        deadline: Number(project.deadline),
+      };
+    }
+
+    return event;
+  }
+}
@@ -0,0 +1,171 @@
+import type { Page, PageOptions, PlatformStats, Project } from "../sdk";
+import { ProjectStatus, toDate } from "../sdk";
+import type { IndexStore } from "./IndexStore";
+import type { ContributionRecord, ProjectRecord, RefundRecord, StatusTransition, WithdrawalRecord } from "./types";
+
+/**
+ * Index Query
+ *
+ * Read API over an IndexStore. Projects come back in the SDK Project shape so
+ * callers can switch between the chain (CrowdfundingClient) and the index.
+ *
+ * Note: emergencyPause does not emit an event, projects paused by the owner
+ * still show their last indexed status.
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export type ProjectSortKey = "id" | "deadline" | "createdAt" | "backers";
+
+export interface ProjectQuery extends PageOptions {
+  status?: ProjectStatus;
+  creator?: string;
+  backer?: string;
+  category?: string;
+  sort?: ProjectSortKey;
+  order?: "asc" | "desc";
+}
+
+export interface IndexedProject extends Project {
+  contributionCount: number;
+  statusHistory: StatusTransition[];
+  withdrawal?: WithdrawalRecord;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function toIndexedProject(record: ProjectRecord): IndexedProject {
+  return {
+    id: record.id,
+    title: record.title,
+    description: record.description,
+    category: record.category,
+    creator: record.creator,
+    deadline: toDate(record.deadline),
+    status: record.status,
+    createdAt: toDate(record.createdAt),
+    backerCount: record.backers.length,
+    metadataHash: record.metadataHash,
+    contributionCount: record.contributions.length,
+    statusHistory: record.statusHistory,
+    withdrawal: record.withdrawal,
+  };
+}
+
+function sortValue(record: ProjectRecord, key: ProjectSortKey): number {
+  switch (key) {
+    case "deadline":
+      return record.deadline;
+    case "createdAt":
+      return record.createdAt;
+    case "backers":
+      return record.backers.length;
+    default:
+      return record.id;
+  }
+}
+
+export class IndexQuery {
+  constructor(private readonly store: IndexStore) {}
+
+  /**
+   * Last indexed block, queries do not see anything after it
+   */
+  get indexedBlock(): number | undefined {
+    return this.store.head?.number;
+  }
+
+  private get records(): ProjectRecord[] {
+    return Object.values(this.store.database.projects).sort((a, b) => a.id - b.id);
+  }
+
+  getProjectCount(): number {
+    return this.records.length;
+  }
+
+  getProject(projectId: number): IndexedProject | undefined {
+    const record = this.store.database.projects[projectId];
+    return record ? toIndexedProject(record) : undefined;
+  }
+
+  /**
+   * Filter, sort and paginate the indexed projects
+   */
+  listProjects(query: ProjectQuery = {}): Page<IndexedProject> {
+    const { offset = 0, limit = DEFAULT_PAGE_SIZE, sort = "id", order = "asc" } = query;
+
+    let records = this.records.filter(
+      (record) =>
+        (query.status === undefined || record.status === query.status) &&
+        (query.creator === undefined || sameAddress(record.creator, query.creator)) &&
+        (query.backer === undefined || record.backers.some((backer) => sameAddress(backer, query.backer!))) &&
+        (query.category === undefined || record.category.toLowerCase() === query.category.toLowerCase()),
+    );
+
+    const direction = order === "desc" ? -1 : 1;
+    records = records.sort((a, b) => (sortValue(a, sort) - sortValue(b, sort)) * direction || a.id - b.id);
+
+    return {
+      items: records.slice(offset, offset + limit).map(toIndexedProject),
+      total: records.length,
+      offset,
+      limit,
+    };
+  }
+
+  getCreatorProjectIds(creator: string): number[] {
+    return this.records.filter((record) => sameAddress(record.creator, creator)).map((record) => record.id);
+  }
+
+  getBackerProjectIds(backer: string): number[] {
+    return this.records
+      .filter((record) => record.backers.some((address) => sameAddress(address, backer)))
+      .map((record) => record.id);
+  }
+
+  getBackers(projectId: number): string[] {
+    return this.store.database.projects[projectId]?.backers ?? [];
+  }
+
+  /**
+   * Every contribution to a project, repeat contributions of a backer included
+   */
+  getContributions(projectId: number): ContributionRecord[] {
+    return this.store.database.projects[projectId]?.contributions ?? [];
+  }
+
+  getBackerContributions(backer: string): ContributionRecord[] {
+    return this.records.flatMap((record) =>
+      record.contributions.filter((contribution) => sameAddress(contribution.backer, backer)),
+    );
+  }
+
+  getRefunds(projectId: number): RefundRecord[] {
+    return this.store.database.projects[projectId]?.refunds ?? [];
+  }
+
+  getStatusHistory(projectId: number): StatusTransition[] {
+    return this.store.database.projects[projectId]?.statusHistory ?? [];
+  }
+
+  getWithdrawals(): WithdrawalRecord[] {
+    return this.records.flatMap((record) => (record.withdrawal ? [record.withdrawal] : []));
+  }
+
+  /**
+   * Same counting rules as getPlatformStats in the contract
+   */
+  getPlatformStats(): PlatformStats {
+    const records = this.records;
+    const count = (...statuses: ProjectStatus[]) => records.filter((record) => statuses.includes(record.status)).length;
+
+    return {
+      totalProjects: records.length,
+      activeProjects: count(ProjectStatus.Active),
+      successfulProjects: count(ProjectStatus.Successful, ProjectStatus.Withdrawn),
+      failedProjects: count(ProjectStatus.Failed),
+    };
+  }
+}
@@ -0,0 +1,211 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProjectStatus } from "../sdk";
+import type { BlockRef, IndexDatabase, IndexedEvent, ProjectRecord } from "./types";
+import { INDEX_VERSION } from "./types";
+
+/**
+ * Index Store
+ *
+ * Embedded JSON database of the indexer. The decoded events are kept as the
+ * source of truth; projects, contributions, refunds, withdrawals and status
+ * transitions are derived from them, so a reorg is handled by dropping the
+ * orphaned events and replaying the rest.
+ */
+
+// How many processed block hashes are kept to look for a common ancestor
+const MAX_RECENT_BLOCKS = 256;
+
+export interface IndexStoreOptions {
+  chainId: number;
+  contractAddress: string;
+  startBlock: number;
+}
+
+export class IndexMismatchError extends Error {
+  constructor(file: string, expected: IndexStoreOptions, found: IndexDatabase) {
+    super(
+      `Index ${file} belongs to ${found.contractAddress} on chain ${found.chainId}, ` +
+        `not ${expected.contractAddress} on chain ${expected.chainId}. Use another database or reset it.`,
+    );
+  }
+}
+
+function emptyDatabase(options: IndexStoreOptions): IndexDatabase {
+  return {
+    version: INDEX_VERSION,
+    chainId: options.chainId,
+    contractAddress: options.contractAddress,
+    startBlock: options.startBlock,
+    recentBlocks: [],
+    events: [],
+    projects: {},
+  };
+}
+
+function transition(project: ProjectRecord, status: ProjectStatus, event: IndexedEvent) {
+  project.status = status;
+  project.statusHistory.push({
+    status,
+    event: event.name,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    timestamp: event.timestamp,
+  });
+}
+
+/**
+ * Apply one event to the derived project records
+ */
+function applyEvent(projects: Record<string, ProjectRecord>, event: IndexedEvent) {
+  if (event.name === "ProjectCreated") {
+    const created = event.project!;
+    projects[event.projectId] = {
+      id: event.projectId,
+      title: created.title,
+      description: created.description,
+      category: created.category,
+      creator: event.account!,
+      metadataHash: created.metadataHash,
+      createdAt: event.timestamp,
+      deadline: created.deadline,
+      status: ProjectStatus.Active,
+      backers: [],
+      contributions: [],
+      refunds: [],
+      statusHistory: [],
+    };
+    transition(projects[event.projectId], ProjectStatus.Active, event);
+    return;
+  }
+
+  const project = projects[event.projectId];
+  if (!project) {
+    // Events of projects created before the start block
+    return;
+  }
+
+  const ref = { blockNumber: event.blockNumber, transactionHash: event.transactionHash, timestamp: event.timestamp };
+
+  switch (event.name) {
+    case "AnonymousContributionMade":
+      if (!project.backers.some((backer) => backer.toLowerCase() === event.account!.toLowerCase())) {
+        project.backers.push(event.account!);
+      }
+      project.contributions.push({ projectId: project.id, backer: event.account!, ...ref });
+      break;
+    case "ProjectFunded":
+      transition(project, ProjectStatus.Successful, event);
+      break;
+    case "ProjectFailed":
+      transition(project, ProjectStatus.Failed, event);
+      break;
+    case "RefundProcessed":
+      project.refunds.push({ projectId: project.id, backer: event.account!, ...ref });
+      break;
+    case "FundsWithdrawn":
+      project.withdrawal = { projectId: project.id, creator: event.account!, ...ref };
+      transition(project, ProjectStatus.Withdrawn, event);
+      break;
+  }
+}
+
+export class IndexStore {
+  private constructor(
+    private db: IndexDatabase,
+    public readonly file?: string,
+  ) {}
+
+  /**
+   * Open the database file, creating an empty one when it does not exist yet
+   */
+  static open(file: string, options: IndexStoreOptions): IndexStore {
+    if (!fs.existsSync(file)) {
+      return new IndexStore(emptyDatabase(options), file);
+    }
+
+    const db: IndexDatabase = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (db.version !== INDEX_VERSION) {
+      throw new Error(`Unsupported index version ${db.version} in ${file} (expected ${INDEX_VERSION})`);
+    }
+    if (db.chainId !== options.chainId || db.contractAddress.toLowerCase() !== options.contractAddress.toLowerCase()) {
+      throw new IndexMismatchError(file, options, db);
+    }
+
+    return new IndexStore(db, file);
+  }
+
+  /**
+   * Load an existing database for reading
+   */
+  static load(file: string): IndexStore {
+    if (!fs.existsSync(file)) {
+      throw new Error(`Index not found: ${file}. Run the indexer:run task first.`);
+    }
+    return new IndexStore(JSON.parse(fs.readFileSync(file, "utf8")), file);
+  }
+
+  /**
+   * In-memory store, nothing is written to disk
+   */
+  static memory(options: IndexStoreOptions): IndexStore {
+    return new IndexStore(emptyDatabase(options));
+  }
+
+  get database(): Readonly<IndexDatabase> {
+    return this.db;
+  }
+
+  get head(): BlockRef | undefined {
+    return this.db.head;
+  }
+
+  get recentBlocks(): readonly BlockRef[] {
+    return this.db.recentBlocks;
+  }
+
+  /**
+   * Record the events of a processed block range and move the head to its last block
+   */
+  append(events: IndexedEvent[], blocks: BlockRef[], head: BlockRef) {
+    for (const event of events) {
+      this.db.events.push(event);
+      applyEvent(this.db.projects, event);
+    }
+
+    const known = new Map(this.db.recentBlocks.map((block) => [block.number, block]));
+    for (const block of [...blocks, head]) {
+      known.set(block.number, block);
+    }
+    this.db.recentBlocks = [...known.values()].sort((a, b) => a.number - b.number).slice(-MAX_RECENT_BLOCKS);
+    this.db.head = head;
+  }
+
+  /**
+   * Drop everything after the given block and rebuild the derived records.
+   * Pass startBlock - 1 to reindex from scratch.
+   */
+  rollback(blockNumber: number) {
+    this.db.events = this.db.events.filter((event) => event.blockNumber <= blockNumber);
+    this.db.recentBlocks = this.db.recentBlocks.filter((block) => block.number <= blockNumber);
+    this.db.head = this.db.recentBlocks[this.db.recentBlocks.length - 1];
+
+    this.db.projects = {};
+    for (const event of this.db.events) {
+      applyEvent(this.db.projects, event);
+    }
+  }
+
+  /**
+   * Write the database atomically, a crash never leaves a half written file
+   */
+  save() {
+    if (!this.file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(this.db) + "\n");
+    fs.renameSync(temporary, this.file);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Anonymous Cultural Crowdfunding Indexer
+ *
+ * Local event index of the crowdfunding contract with a query API.
+ */
+
+export * from "./CrowdfundingIndexer";
+export * from "./IndexQuery";
+export * from "./IndexStore";
+export * from "./types";
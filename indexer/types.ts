@@ -0,0 +1,110 @@
+import type { ProjectStatus } from "../sdk";
+
+/**
+ * Crowdfunding Indexer Types
+ *
+ * Records persisted by the indexer. Timestamps are unix seconds so the
+ * database stays plain JSON; the query API converts them to Date.
+ */
+
+export const INDEX_VERSION = 1;
+
+export type IndexedEventName =
+  | "ProjectCreated"
+  | "AnonymousContributionMade"
+  | "ProjectFunded"
+  | "ProjectFailed"
+  | "RefundProcessed"
+  | "FundsWithdrawn";
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+/**
+ * A decoded contract event, the source of truth the derived records are rebuilt from
+ */
+export interface IndexedEvent {
+  name: IndexedEventName;
+  projectId: number;
+  // Creator or backer named by the event, if any
+  account?: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // Block timestamp
+  timestamp: number;
+  // Project fields read at the creation block, only set on ProjectCreated
+  project?: {
+    title: string;
+    description: string;
+    category: string;
+    metadataHash: string;
+    deadline: number;
+  };
+}
+
+export interface StatusTransition {
+  status: ProjectStatus;
+  event: IndexedEventName;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface ContributionRecord {
+  projectId: number;
+  backer: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface RefundRecord {
+  projectId: number;
+  backer: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface WithdrawalRecord {
+  projectId: number;
+  creator: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface ProjectRecord {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  creator: string;
+  metadataHash: string;
+  createdAt: number;
+  deadline: number;
+  status: ProjectStatus;
+  // Unique backers in order of their first contribution
+  backers: string[];
+  contributions: ContributionRecord[];
+  refunds: RefundRecord[];
+  statusHistory: StatusTransition[];
+  withdrawal?: WithdrawalRecord;
+}
+
+export interface IndexDatabase {
+  version: number;
+  chainId: number;
+  contractAddress: string;
+  startBlock: number;
+  // Last fully processed block, undefined before the first sync
+  head?: BlockRef;
+  // Hashes of recently processed blocks, used to find the common ancestor after a reorg
+  recentBlocks: BlockRef[];
+  events: IndexedEvent[];
+  projects: Record<string, ProjectRecord>;
+}
@@ -0,0 +1,166 @@
+import type { Log, LogDescription, Provider } from "ethers";
+import type { AnonymousCulturalCrowdfunding } from "../types";
+import type { WebhookDispatcher } from "./WebhookDispatcher";
+import type { DeliveryResult, NotifiedEventName, NotifierConfig, WebhookPayload, WebhookTarget } from "./types";
+import { NOTIFIED_EVENTS } from "./types";
+
+/**
+ * Crowdfunding Notifier
+ *
+ * Polls the contract events and POSTs each notified event to the webhook of
+ * the project creator. The notifier only keeps its position in memory; the
+ * caller persists lastBlock (see notifier:run) and replays from any block by
+ * passing fromBlock.
+ *
+ * Usage:
+ *   const notifier = new CrowdfundingNotifier(contract, provider, config, dispatcher, { fromBlock });
+ *   await notifier.sync();
+ */
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+export interface CrowdfundingNotifierOptions {
+  // First block to notify, defaults to the block after the chain head at the first sync
+  fromBlock?: number;
+  // Blocks an event must be buried under before it is notified, guards against reorgs
+  confirmations?: number;
+  // Number of blocks requested per getLogs call
+  batchSize?: number;
+  // Called after every delivery attempt sequence, successful or dead-lettered
+  onDelivery?: (payload: WebhookPayload, target: WebhookTarget, result: DeliveryResult) => void;
+  // Called once every block up to toBlock was notified
+  onProgress?: (progress: { fromBlock: number; toBlock: number; head: number }) => void;
+}
+
+export interface NotifyResult {
+  // Last notified block, undefined when nothing was processed yet
+  lastBlock?: number;
+  delivered: number;
+  failed: number;
+  // Events of creators without webhook, or filtered out by the webhook
+  skipped: number;
+}
+
+export class CrowdfundingNotifier {
+  private readonly creators = new Map<number, string>();
+  private chainId?: number;
+  private nextBlock?: number;
+
+  constructor(
+    private readonly contract: AnonymousCulturalCrowdfunding,
+    private readonly provider: Provider,
+    private readonly config: NotifierConfig,
+    private readonly dispatcher: WebhookDispatcher,
+    private readonly options: CrowdfundingNotifierOptions = {},
+  ) {
+    this.nextBlock = options.fromBlock;
+  }
+
+  get lastBlock(): number | undefined {
+    return this.nextBlock === undefined ? undefined : this.nextBlock - 1;
+  }
+
+  /**
+   * Notify every event up to the confirmed chain head
+   */
+  async sync(): Promise<NotifyResult> {
+    const result: NotifyResult = { delivered: 0, failed: 0, skipped: 0 };
+    const head = (await this.provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+    this.nextBlock ??= head + 1;
+    this.chainId ??= Number((await this.provider.getNetwork()).chainId);
+
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const address = await this.contract.getAddress();
+
+    while (this.nextBlock <= head) {
+      const fromBlock = this.nextBlock;
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      const logs = await this.provider.getLogs({ address, fromBlock, toBlock });
+
+      for (const log of logs) {
+        await this.notify(log, address, result);
+      }
+
+      this.nextBlock = toBlock + 1;
+      this.options.onProgress?.({ fromBlock, toBlock, head });
+    }
+
+    result.lastBlock = this.lastBlock;
+    return result;
+  }
+
+  /**
+   * Keep notifying until the signal is aborted
+   */
+  async run(interval: number, signal?: AbortSignal, onError?: (error: unknown) => void): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        await this.sync();
+      } catch (error: unknown) {
+        if (!onError) {
+          throw error;
+        }
+        onError(error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  private async notify(log: Log, contractAddress: string, result: NotifyResult): Promise<void> {
+    let parsed: LogDescription | null;
+    try {
+      parsed = this.contract.interface.parseLog(log);
+    } catch {
+      return;
+    }
+    if (!parsed || !NOTIFIED_EVENTS.includes(parsed.name as NotifiedEventName)) {
+      return;
+    }
+
+    const event = parsed.name as NotifiedEventName;
+    const projectId = Number(parsed.args.projectId);
+    const creator = await this.getCreator(projectId, parsed);
+    const target = this.config.webhooks[creator.toLowerCase()];
+    if (!target || (target.events && !target.events.includes(event))) {
+      result.skipped++;
+      return;
+    }
+
+    const block = await this.provider.getBlock(log.blockNumber);
+    const payload: WebhookPayload = {
+      id: `${log.transactionHash}:${log.index}`,
+      event,
+      chainId: this.chainId!,
+      contractAddress,
+      projectId,
+      creator,
+      ...(parsed.fragment.inputs.some((input) => input.name === "backer") ? { backer: parsed.args.backer } : {}),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: block?.timestamp ?? 0,
+    };
+
+    const delivery = await this.dispatcher.deliver(target, payload);
+    if (delivery.delivered) {
+      result.delivered++;
+    } else {
+      result.failed++;
+    }
+    this.options.onDelivery?.(payload, target, delivery);
+  }
+
+  private async getCreator(projectId: number, parsed: LogDescription): Promise<string> {
+    // ProjectFunded and FundsWithdrawn name the creator, the other events need a lookup
+    if (parsed.fragment.inputs.some((input) => input.name === "creator")) {
+      return parsed.args.creator;
+    }
+
+    let creator = this.creators.get(projectId);
+    if (!creator) {
+      creator = (await this.contract.getProject(projectId)).creator;
+      this.creators.set(projectId, creator);
+    }
+    return creator;
+  }
+}
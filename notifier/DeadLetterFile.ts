@@ -0,0 +1,26 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { DeadLetter } from "./types";
+
+/**
+ * Append-only JSON Lines file of the notifications that could not be delivered
+ */
+export class DeadLetterFile {
+  constructor(public readonly file: string) {}
+
+  append(letter: DeadLetter): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.appendFileSync(this.file, JSON.stringify(letter) + "\n");
+  }
+
+  read(): DeadLetter[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+    return fs
+      .readFileSync(this.file, "utf8")
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as DeadLetter);
+  }
+}
@@ -0,0 +1,82 @@
+import type { DeadLetterFile } from "./DeadLetterFile";
+import { DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from "./signing";
+import type { DeliveryResult, RetryPolicy, WebhookPayload, WebhookTarget } from "./types";
+
+/**
+ * Webhook Dispatcher
+ *
+ * POSTs signed payloads with exponential backoff. Network errors, timeouts,
+ * 408, 429 and 5xx answers are retried; other 4xx answers mean the receiver
+ * rejected the payload and are not. Payloads still undelivered after the last
+ * attempt are written to the dead-letter file.
+ */
+
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export class WebhookDispatcher {
+  constructor(
+    private readonly retry: RetryPolicy,
+    private readonly deadLetters?: DeadLetterFile,
+  ) {}
+
+  async deliver(target: WebhookTarget, payload: WebhookPayload): Promise<DeliveryResult> {
+    const body = JSON.stringify(payload);
+    let result: DeliveryResult = { delivered: false, attempts: 0 };
+
+    for (let attempt = 1; attempt <= this.retry.attempts; attempt++) {
+      result = await this.post(target, payload, body, attempt);
+      if (result.delivered || (result.status !== undefined && !isRetryable(result.status))) {
+        break;
+      }
+      if (attempt < this.retry.attempts) {
+        await new Promise((resolve) => setTimeout(resolve, this.retry.backoffMs * 2 ** (attempt - 1)));
+      }
+    }
+
+    if (!result.delivered) {
+      this.deadLetters?.append({
+        url: target.url,
+        payload,
+        attempts: result.attempts,
+        error: result.error ?? "Unknown error",
+        failedAt: new Date().toISOString(),
+      });
+    }
+    return result;
+  }
+
+  private async post(
+    target: WebhookTarget,
+    payload: WebhookPayload,
+    body: string,
+    attempt: number,
+  ): Promise<DeliveryResult> {
+    // Signed per attempt so the timestamp stays fresh across retries
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [SIGNATURE_HEADER]: signPayload(body, target.secret, timestamp),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [EVENT_HEADER]: payload.event,
+          [DELIVERY_HEADER]: payload.id,
+        },
+        body,
+        signal: AbortSignal.timeout(this.retry.timeoutMs),
+      });
+      // Release the connection, the answer body is not used
+      await response.body?.cancel();
+
+      return response.ok
+        ? { delivered: true, attempts: attempt, status: response.status }
+        : { delivered: false, attempts: attempt, status: response.status, error: `HTTP ${response.status}` };
+    } catch (error: unknown) {
+      return { delivered: false, attempts: attempt, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import { isAddress } from "ethers";
+import { load as loadYaml } from "js-yaml";
+import * as path from "path";
+import type { NotifiedEventName, NotifierConfig, RetryPolicy, WebhookTarget } from "./types";
+import { NOTIFIED_EVENTS } from "./types";
+
+/**
+ * Notifier Configuration
+ *
+ * JSON or YAML file mapping creator addresses to their webhook. Secrets can
+ * be given inline or, to keep them out of the file, as an environment variable:
+ *
+ *   webhooks:
+ *     "0x70997970C51812dc3A010C7d01b50e0d17dc79C8":
+ *       url: https://example.org/hooks/crowdfunding
+ *       secretEnv: CREATOR_WEBHOOK_SECRET
+ *       events: [ProjectFunded, ProjectFailed]
+ *   retry:
+ *     attempts: 5
+ */
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 5,
+  backoffMs: 1000,
+  timeoutMs: 10000,
+};
+
+export class NotifierConfigError extends Error {}
+
+interface RawWebhook {
+  url?: unknown;
+  secret?: unknown;
+  secretEnv?: unknown;
+  events?: unknown;
+}
+
+function parseWebhook(creator: string, raw: RawWebhook, env: NodeJS.ProcessEnv): WebhookTarget {
+  if (!isAddress(creator)) {
+    throw new NotifierConfigError(`Invalid creator address: ${creator}`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(String(raw.url));
+  } catch {
+    throw new NotifierConfigError(`Invalid webhook url for ${creator}: ${raw.url}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new NotifierConfigError(`Webhook url for ${creator} must be http or https: ${raw.url}`);
+  }
+
+  const secret = typeof raw.secretEnv === "string" ? env[raw.secretEnv] : raw.secret;
+  if (typeof secret !== "string" || secret.length === 0) {
+    throw new NotifierConfigError(
+      typeof raw.secretEnv === "string"
+        ? `Environment variable ${raw.secretEnv} holding the secret of ${creator} is not set`
+        : `Webhook of ${creator} has no secret (set secret or secretEnv)`,
+    );
+  }
+
+  const target: WebhookTarget = { url: url.toString(), secret };
+  if (raw.events !== undefined) {
+    if (!Array.isArray(raw.events) || raw.events.some((event) => !NOTIFIED_EVENTS.includes(event))) {
+      throw new NotifierConfigError(
+        `Invalid events for ${creator}: ${JSON.stringify(raw.events)} (expected ${NOTIFIED_EVENTS.join(", ")})`,
+      );
+    }
+    target.events = raw.events as NotifiedEventName[];
+  }
+  return target;
+}
+
+function parseRetry(raw: unknown): RetryPolicy {
+  const retry = { ...DEFAULT_RETRY_POLICY, ...(raw as Partial<RetryPolicy>) };
+  for (const [key, value] of Object.entries(retry)) {
+    if (!Number.isInteger(value) || value < (key === "attempts" ? 1 : 0)) {
+      throw new NotifierConfigError(`Invalid retry.${key}: ${value}`);
+    }
+  }
+  return retry;
+}
+
+export function parseNotifierConfig(raw: unknown, env: NodeJS.ProcessEnv = process.env): NotifierConfig {
+  const config = raw as { webhooks?: Record<string, RawWebhook>; retry?: unknown } | undefined;
+  if (!config?.webhooks || typeof config.webhooks !== "object") {
+    throw new NotifierConfigError("The notifier configuration has no webhooks");
+  }
+
+  const webhooks: Record<string, WebhookTarget> = {};
+  for (const [creator, webhook] of Object.entries(config.webhooks)) {
+    webhooks[creator.toLowerCase()] = parseWebhook(creator, webhook ?? {}, env);
+  }
+
+  return { webhooks, retry: parseRetry(config.retry) };
+}
+
+export function loadNotifierConfig(file: string, env: NodeJS.ProcessEnv = process.env): NotifierConfig {
+  const source = fs.readFileSync(file, "utf8");
+  const extension = path.extname(file).toLowerCase();
+  const raw = extension === ".yaml" || extension === ".yml" ? loadYaml(source) : JSON.parse(source);
+  return parseNotifierConfig(raw, env);
+}
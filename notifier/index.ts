@@ -0,0 +1,12 @@
+/**
+ * Anonymous Cultural Crowdfunding Notifier
+ *
+ * Signed webhook notifications of the crowdfunding contract events.
+ */
+
+export * from "./CrowdfundingNotifier";
+export * from "./DeadLetterFile";
+export * from "./WebhookDispatcher";
+export * from "./config";
+export * from "./signing";
+export * from "./types";
@@ -0,0 +1,35 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Webhook Signatures
+ *
+ * Every POST carries an HMAC-SHA256 of "<timestamp>.<body>" keyed with the
+ * secret of the webhook. Receivers recompute it with verifySignature and
+ * reject stale timestamps to stop replayed requests.
+ */
+
+export const SIGNATURE_HEADER = "x-crowdfunding-signature";
+export const TIMESTAMP_HEADER = "x-crowdfunding-timestamp";
+export const EVENT_HEADER = "x-crowdfunding-event";
+export const DELIVERY_HEADER = "x-crowdfunding-delivery";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function signPayload(body: string, secret: string, timestamp: number): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function verifySignature(
+  body: string,
+  secret: string,
+  timestamp: number,
+  signature: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+): boolean {
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signPayload(body, secret, timestamp));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
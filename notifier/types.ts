@@ -0,0 +1,71 @@
+/**
+ * Notifier Types
+ *
+ * Webhook configuration and the JSON payloads POSTed for contract events.
+ */
+
+export const NOTIFIED_EVENTS = [
+  "AnonymousContributionMade",
+  "ProjectFunded",
+  "ProjectFailed",
+  "RefundProcessed",
+  "FundsWithdrawn",
+] as const;
+
+export type NotifiedEventName = (typeof NOTIFIED_EVENTS)[number];
+
+export interface WebhookTarget {
+  url: string;
+  // Shared secret the payloads are signed with, see signing.ts
+  secret: string;
+  // Events to deliver, every notified event when omitted
+  events?: NotifiedEventName[];
+}
+
+export interface RetryPolicy {
+  // Deliveries attempted before a payload goes to the dead-letter file
+  attempts: number;
+  // Delay before the first retry, doubled on every further retry
+  backoffMs: number;
+  // Timeout of a single POST
+  timeoutMs: number;
+}
+
+export interface NotifierConfig {
+  // Webhook of each creator, keyed by lowercase creator address
+  webhooks: Record<string, WebhookTarget>;
+  retry: RetryPolicy;
+}
+
+export interface WebhookPayload {
+  // transactionHash:logIndex, identical when an event is replayed so receivers can deduplicate
+  id: string;
+  event: NotifiedEventName;
+  chainId: number;
+  contractAddress: string;
+  projectId: number;
+  creator: string;
+  // Backer of AnonymousContributionMade and RefundProcessed, amounts stay encrypted
+  backer?: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  // Block timestamp in seconds
+  timestamp: number;
+}
+
+export interface DeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  // HTTP status of the last attempt, when the server answered
+  status?: number;
+  error?: string;
+}
+
+export interface DeadLetter {
+  url: string;
+  payload: WebhookPayload;
+  attempts: number;
+  error: string;
+  failedAt: string;
+}
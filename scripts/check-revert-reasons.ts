@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+/**
+ * Revert Reason Check
+ *
+ * Compares the revert strings of the crowdfunding contract with the SDK error
+ * catalogue (sdk/errors.ts). Exits with code 1 when the contract uses a revert
+ * string, or a custom error, that the catalogue does not know.
+ *
+ * Usage:
+ *   npx ts-node scripts/check-revert-reasons.ts
+ *   npx ts-node scripts/check-revert-reasons.ts contracts/AnonymousCulturalCrowdfunding.sol
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { REVERT_CATALOGUE } from "../sdk/errors";
+
+const DEFAULT_CONTRACT = "contracts/AnonymousCulturalCrowdfunding.sol";
+
+interface RevertSite {
+  reason: string;
+  line: number;
+}
+
+function lineOf(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+function stripComments(source: string): string {
+  // Keep the line breaks so reported line numbers still match the file
+  return source.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, " ")).replace(/\/\/.*$/gm, "");
+}
+
+/**
+ * Find the reason strings of require(cond, "...") and revert("...")
+ */
+export function findRevertReasons(source: string): RevertSite[] {
+  const code = stripComments(source);
+  const sites: RevertSite[] = [];
+
+  for (const match of code.matchAll(/\brequire\s*\([^;]*?,\s*"((?:[^"\\]|\\.)*)"\s*\)\s*;/g)) {
+    sites.push({ reason: match[1], line: lineOf(code, match.index ?? 0) });
+  }
+
+  for (const match of code.matchAll(/\brevert\s*\(\s*"((?:[^"\\]|\\.)*)"\s*\)/g)) {
+    sites.push({ reason: match[1], line: lineOf(code, match.index ?? 0) });
+  }
+
+  return sites.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Find custom errors (revert SomeError(...)), which the catalogue cannot map yet
+ */
+export function findCustomErrors(source: string): RevertSite[] {
+  const code = stripComments(source);
+  return [...code.matchAll(/\brevert\s+([A-Za-z_]\w*)\s*\(/g)].map((match) => ({
+    reason: match[1],
+    line: lineOf(code, match.index ?? 0),
+  }));
+}
+
+function main() {
+  const contractPath = path.resolve(process.argv[2] ?? DEFAULT_CONTRACT);
+  if (!fs.existsSync(contractPath)) {
+    console.error(`Contract not found: ${contractPath}`);
+    process.exit(1);
+  }
+
+  const source = fs.readFileSync(contractPath, "utf8");
+  const known = new Set<string>(Object.values(REVERT_CATALOGUE).map((entry) => entry.reason));
+  const sites = findRevertReasons(source);
+  const unknown = sites.filter((site) => !known.has(site.reason));
+  const customErrors = findCustomErrors(source);
+
+  const used = new Set(sites.map((site) => site.reason));
+  const unused = [...known].filter((reason) => !used.has(reason));
+
+  console.log(`Checked ${sites.length} revert sites in ${path.relative(process.cwd(), contractPath)}`);
+
+  if (unused.length > 0) {
+    console.warn(`\nCatalogue entries no longer used by the contract:`);
+    unused.forEach((reason) => console.warn(`  "${reason}"`));
+  }
+
+  if (unknown.length > 0 || customErrors.length > 0) {
+    console.error(`\nRevert reasons missing from sdk/errors.ts:`);
+    unknown.forEach((site) => console.error(`  line ${site.line}: "${site.reason}"`));
+    customErrors.forEach((site) => console.error(`  line ${site.line}: custom error ${site.reason}`));
+    process.exit(1);
+  }
+
+  console.log("✓ Every revert reason is in the error catalogue");
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,518 @@
+import type { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, LogDescription } from "ethers";
+import { ZeroHash } from "ethers";
+import type { AnonymousCulturalCrowdfunding } from "../types";
+import { toCrowdfundingError } from "./errors";
+import type {
+  AmountDecryptor,
+  AmountEncryptor,
+  Contribution,
+  ContributionRecord,
+  ContributionStatus,
+  CreateProjectParams,
+  DecryptionKind,
+  DecryptionRequest,
+  EncryptedAmount,
+  Page,
+  PageOptions,
+  PlatformStats,
+  PortfolioEntry,
+  Project,
+  ProjectAmountHandles,
+  ProjectAmounts,
+  PublishedProgress,
+  StatusChange,
+} from "./types";
+import { ProjectStatus } from "./types";
+import { MAX_UINT64, toDate } from "./units";
+
+/**
+ * Crowdfunding Client
+ *
+ * Typed wrapper around the AnonymousCulturalCrowdfunding contract.
+ * The client takes an already connected TypeChain contract so it works with
+ * hardhat (getContractAt / factories) as well as with a browser provider.
+ *
+ * Usage:
+ *   const client = new CrowdfundingClient(contract, { decryptor });
+ *   const { projectId } = await client.createProject({ ... });
+ *   await client.contribute(projectId, parseAmount("0.5"), "Good luck");
+ *   await client.deposit(parseAmount("1"));
+ *   await client.contributeConfidentially(projectId, parseAmount("0.5"));  // needs an encryptor
+ *
+ * Contract reverts are rethrown as the typed errors of ./errors.
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface CrowdfundingClientOptions {
+  // Used by the decrypt* helpers, see AmountDecryptor
+  decryptor?: AmountDecryptor;
+  // Used by contributeConfidentially, see AmountEncryptor
+  encryptor?: AmountEncryptor;
+}
+
+export function toProjectStatus(value: bigint | number): ProjectStatus {
+  const status = Number(value);
+  if (!(status in ProjectStatus)) {
+    throw new RangeError(`Unknown project status: ${value}`);
+  }
+  return status as ProjectStatus;
+}
+
+export class CrowdfundingClient {
+  constructor(
+    public readonly contract: AnonymousCulturalCrowdfunding,
+    private readonly options: CrowdfundingClientOptions = {},
+  ) {}
+
+  /**
+   * Return a client sending transactions from another account
+   */
+  connect(runner: ContractRunner, options: CrowdfundingClientOptions = this.options): CrowdfundingClient {
+    return new CrowdfundingClient(this.contract.connect(runner) as AnonymousCulturalCrowdfunding, options);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  // ----- Transactions -----
+
+  async createProject(
+    params: CreateProjectParams,
+  ): Promise<{ projectId: number; receipt: ContractTransactionReceipt }> {
+    if (params.target <= 0n || params.target > MAX_UINT64) {
+      throw new RangeError("Target must be greater than 0 and fit in a uint64 (in wei)");
+    }
+
+    const receipt = await this.send(
+      this.contract.createProject(
+        params.title,
+        params.description,
+        params.category,
+        params.target,
+        params.fundingPeriod,
+        params.metadataHash ?? "",
+      ),
+    );
+
+    const created = this.parseEvents(receipt).find((event) => event.name === "ProjectCreated");
+    if (!created) {
+      throw new Error("ProjectCreated event not found in transaction receipt");
+    }
+
+    return { projectId: Number(created.args.projectId), receipt };
+  }
+
+  async contribute(
+    projectId: number,
+    amount: bigint,
+    supportMessage: string = "",
+  ): Promise<ContractTransactionReceipt> {
+    if (amount <= 0n || amount > MAX_UINT64) {
+      throw new RangeError("Contribution must be greater than 0 and fit in a uint64 (in wei)");
+    }
+
+    return this.send(this.contract.contributeAnonymously(projectId, supportMessage, { value: amount }));
+  }
+
+  async finalize(projectId: number): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.finalizeProject(projectId));
+  }
+
+  /**
+   * Opt in to publishing the progress of a project in 25% buckets, or opt out again (creator only)
+   */
+  async setProgressPublished(projectId: number, published: boolean): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setProgressPublished(projectId, published));
+  }
+
+  /**
+   * Withdraw the escrow of a successful project. The ETH is paid by the decryption callback.
+   */
+  async withdraw(projectId: number): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.withdrawFunds(projectId));
+  }
+
+  /**
+   * Refund a contribution to a failed project, paid by the decryption callback or credited to the deposit pool
+   */
+  async refund(projectId: number): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.requestRefund(projectId));
+  }
+
+  /**
+   * Deposit ETH into the pool that contributeConfidentially draws from. The deposit itself is public.
+   */
+  async deposit(amount: bigint): Promise<ContractTransactionReceipt> {
+    if (amount <= 0n || amount > MAX_UINT64) {
+      throw new RangeError("Deposit must be greater than 0 and fit in a uint64 (in wei)");
+    }
+
+    return this.send(this.contract.deposit({ value: amount }));
+  }
+
+  /**
+   * Contribute an encrypted amount from the deposit pool, it never appears in calldata or logs.
+   * An amount above the pool balance contributes 0 rather than reverting.
+   */
+  async contributeConfidentially(
+    projectId: number,
+    amount: bigint,
+    supportMessage: string = "",
+  ): Promise<ContractTransactionReceipt> {
+    const { handle, inputProof } = await this.encryptAmount(amount);
+    return this.send(this.contract.contributeConfidentially(projectId, handle, inputProof, supportMessage));
+  }
+
+  /**
+   * Withdraw from the deposit pool. The ETH is paid by the decryption callback when the balance covers it.
+   */
+  async withdrawDeposit(amount: bigint): Promise<ContractTransactionReceipt> {
+    if (amount <= 0n || amount > MAX_UINT64) {
+      throw new RangeError("Withdrawal must be greater than 0 and fit in a uint64 (in wei)");
+    }
+
+    return this.send(this.contract.withdrawDeposit(amount));
+  }
+
+  async transferOwnership(newOwner: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.transferOwnership(newOwner));
+  }
+
+  // ----- Reads -----
+
+  async getProjectCount(): Promise<number> {
+    return Number(await this.contract.projectCounter());
+  }
+
+  async projectExists(projectId: number): Promise<boolean> {
+    return projectId >= 1 && projectId <= (await this.getProjectCount());
+  }
+
+  async getProject(projectId: number): Promise<Project> {
+    const project = await this.call(this.contract.getProject(projectId));
+    return {
+      id: projectId,
+      title: project.title,
+      description: project.description,
+      category: project.category,
+      creator: project.creator,
+      deadline: toDate(project.deadline),
+      status: toProjectStatus(project.status),
+      createdAt: toDate(project.createdAt),
+      backerCount: Number(project.backerCount),
+      metadataHash: project.metadataHash,
+    };
+  }
+
+  async getProjects(projectIds: number[]): Promise<Project[]> {
+    return Promise.all(projectIds.map((id) => this.getProject(id)));
+  }
+
+  /**
+   * Fetch one page of projects in id order
+   */
+  async listProjects({ offset = 0, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}): Promise<Page<Project>> {
+    const total = await this.getProjectCount();
+    const first = offset + 1;
+    const last = Math.min(offset + limit, total);
+    const ids = Array.from({ length: Math.max(last - first + 1, 0) }, (_, i) => first + i);
+
+    return { items: await this.getProjects(ids), total, offset, limit };
+  }
+
+  /**
+   * Iterate over every project, fetching them page by page
+   */
+  async *iterateProjects(pageSize: number = DEFAULT_PAGE_SIZE): AsyncGenerator<Project> {
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.listProjects({ offset, limit: pageSize });
+      yield* page.items;
+      if (offset + pageSize >= page.total) {
+        return;
+      }
+    }
+  }
+
+  async getCreatorProjectIds(creator: string): Promise<number[]> {
+    return (await this.contract.getCreatorProjects(creator)).map(Number);
+  }
+
+  async getBackerProjectIds(backer: string): Promise<number[]> {
+    return (await this.contract.getBackerProjects(backer)).map(Number);
+  }
+
+  /**
+   * Progress bucket published by the creator, undefined until opted in and decrypted
+   */
+  async getPublishedProgress(projectId: number): Promise<PublishedProgress | undefined> {
+    const progress = await this.call(this.contract.getPublishedProgress(projectId));
+    if (!progress.published || progress.updatedAt === 0n) {
+      return undefined;
+    }
+    return { percent: Number(progress.percent), updatedAt: toDate(progress.updatedAt) };
+  }
+
+  async getDecryptionRequest(requestId: bigint): Promise<DecryptionRequest> {
+    const request = await this.contract.getDecryptionRequest(requestId);
+    return {
+      requestId,
+      kind: Number(request.kind) as DecryptionKind,
+      projectId: Number(request.projectId),
+      account: request.account,
+      fulfilled: request.fulfilled,
+    };
+  }
+
+  /**
+   * Decryption requests of a project the oracle has not called back for yet
+   */
+  async getPendingRequests(projectId: number): Promise<DecryptionRequest[]> {
+    const requestIds = await this.call(this.contract.getPendingRequests(projectId));
+    return Promise.all(requestIds.map((requestId) => this.getDecryptionRequest(requestId)));
+  }
+
+  async getBackers(projectId: number): Promise<string[]> {
+    const { backerCount } = await this.getProject(projectId);
+    return Promise.all(Array.from({ length: backerCount }, (_, i) => this.contract.projectBackers(projectId, i)));
+  }
+
+  /**
+   * Read a contribution through getContribution, which only answers the backer, the creator and the owner
+   */
+  async getContribution(projectId: number, backer: string): Promise<Contribution> {
+    const [contribution, stored] = await Promise.all([
+      this.call(this.contract.getContribution(projectId, backer)),
+      this.contract.contributions(projectId, backer),
+    ]);
+    return {
+      projectId,
+      backer,
+      encryptedAmount: contribution.encryptedAmount,
+      exists: contribution.timestamp > 0n,
+      timestamp: toDate(contribution.timestamp),
+      refunded: contribution.refunded,
+      supportMessage: contribution.supportMessage,
+      confidential: stored.confidential,
+    };
+  }
+
+  /**
+   * Every contribution of the backer to a project, oldest first. Same access rule as getContribution.
+   */
+  async getContributionHistory(projectId: number, backer: string): Promise<ContributionRecord[]> {
+    const history = await this.call(this.contract.getContributionHistory(projectId, backer));
+    return history.encryptedAmounts.map((encryptedAmount, i) => ({
+      encryptedAmount,
+      timestamp: toDate(history.timestamps[i]),
+      supportMessage: history.supportMessages[i],
+      confidential: history.confidential[i],
+    }));
+  }
+
+  /**
+   * Handles of the encrypted target and running total, readable by the creator and the backers only
+   */
+  async getProjectAmountHandles(projectId: number): Promise<ProjectAmountHandles> {
+    const amounts = await this.call(this.contract.getProjectAmounts(projectId));
+    return { encryptedTarget: amounts.encryptedTarget, encryptedCurrent: amounts.encryptedCurrent };
+  }
+
+  /**
+   * Timestamp and refund flag of a contribution, read from the public contributions mapping
+   */
+  async getContributionStatus(projectId: number, backer: string): Promise<ContributionStatus> {
+    const contribution = await this.contract.contributions(projectId, backer);
+    return {
+      projectId,
+      backer,
+      exists: contribution.timestamp > 0n,
+      timestamp: toDate(contribution.timestamp),
+      refunded: contribution.refunded,
+    };
+  }
+
+  /**
+   * Whether the backer has contributed, readable by anyone
+   */
+  async hasContributed(projectId: number, backer: string): Promise<boolean> {
+    return (await this.contract.contributions(projectId, backer)).timestamp > 0n;
+  }
+
+  /**
+   * Every project the backer contributed to, with its contribution.
+   * getContribution only answers the backer, so connect the client as the backer.
+   */
+  async getPortfolio(backer: string): Promise<PortfolioEntry[]> {
+    const projects = await this.getProjects(await this.getBackerProjectIds(backer));
+    return Promise.all(
+      projects.map(async (project) => ({ project, contribution: await this.getContribution(project.id, backer) })),
+    );
+  }
+
+  async getPlatformStats(): Promise<PlatformStats> {
+    const stats = await this.contract.getPlatformStats();
+    return {
+      totalProjects: Number(stats.totalProjects),
+      activeProjects: Number(stats.activeProjects),
+      successfulProjects: Number(stats.successfulProjects),
+      failedProjects: Number(stats.failedProjects),
+    };
+  }
+
+  /**
+   * Status changes of a project in chain order, from its events.
+   * Projects paused with emergencyPause emit no event and miss that change.
+   */
+  async getStatusHistory(projectId: number, fromBlock: number = 0): Promise<StatusChange[]> {
+    const { filters } = this.contract;
+    const [created, funded, failed, withdrawn] = await this.call(
+      Promise.all([
+        this.contract.queryFilter(filters.ProjectCreated(projectId), fromBlock),
+        this.contract.queryFilter(filters.ProjectFunded(projectId), fromBlock),
+        this.contract.queryFilter(filters.ProjectFailed(projectId), fromBlock),
+        this.contract.queryFilter(filters.FundsWithdrawn(projectId), fromBlock),
+      ]),
+    );
+
+    const logs = [
+      ...created.map((log) => ({ log, status: ProjectStatus.Active, event: "ProjectCreated" as const })),
+      ...funded.map((log) => ({ log, status: ProjectStatus.Successful, event: "ProjectFunded" as const })),
+      ...failed.map((log) => ({ log, status: ProjectStatus.Failed, event: "ProjectFailed" as const })),
+      ...withdrawn.map((log) => ({ log, status: ProjectStatus.Withdrawn, event: "FundsWithdrawn" as const })),
+    ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+    return Promise.all(
+      logs.map(async ({ log, status, event }) => ({
+        status,
+        event,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        timestamp: toDate((await log.getBlock()).timestamp),
+      })),
+    );
+  }
+
+  /**
+   * Timestamp of the latest block, the clock the contract checks deadlines against
+   */
+  async getChainTime(): Promise<Date> {
+    const block = await this.contract.runner?.provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("The contract runner has no provider to read the latest block from");
+    }
+    return toDate(block.timestamp);
+  }
+
+  async getOwner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  async getFundingPeriodLimits(): Promise<{ min: bigint; max: bigint }> {
+    const [min, max] = await Promise.all([this.contract.MIN_FUNDING_PERIOD(), this.contract.MAX_FUNDING_PERIOD()]);
+    return { min, max };
+  }
+
+  // ----- Encrypted amounts -----
+
+  /**
+   * Decrypt a euint64 handle with the configured decryptor.
+   * Uninitialized handles decrypt to 0 without a round trip.
+   */
+  async decryptAmount(handle: string): Promise<bigint> {
+    if (handle === ZeroHash) {
+      return 0n;
+    }
+    if (!this.options.decryptor) {
+      throw new Error("No decryptor configured on this CrowdfundingClient");
+    }
+    return this.options.decryptor(handle, await this.getAddress());
+  }
+
+  /**
+   * Decrypt the target and the raised amount of a project (creator only under the ACL)
+   */
+  async decryptProjectAmounts(projectId: number): Promise<ProjectAmounts> {
+    const [amounts, project] = await Promise.all([this.getProjectAmountHandles(projectId), this.getProject(projectId)]);
+
+    return {
+      target: await this.decryptAmount(amounts.encryptedTarget),
+      // The initial encrypted zero is only readable by the contract itself
+      raised: project.backerCount === 0 ? 0n : await this.decryptAmount(amounts.encryptedCurrent),
+    };
+  }
+
+  /**
+   * Decrypt the escrow of a project, the raised amount not yet withdrawn or refunded (creator only under the ACL)
+   */
+  async decryptProjectEscrow(projectId: number): Promise<bigint> {
+    return this.decryptAmount(await this.call(this.contract.getProjectEscrow(projectId)));
+  }
+
+  /**
+   * Decrypt the deposit pool balance of the connected account
+   */
+  async decryptDepositBalance(): Promise<bigint> {
+    return this.decryptAmount(await this.call(this.contract.getDepositBalance()));
+  }
+
+  /**
+   * Encrypt an amount for this contract and the connected account with the configured encryptor
+   */
+  async encryptAmount(amount: bigint): Promise<EncryptedAmount> {
+    if (!this.options.encryptor) {
+      throw new Error("No encryptor configured on this CrowdfundingClient");
+    }
+    const signer = this.contract.runner as { getAddress?: () => Promise<string> } | null;
+    if (!signer?.getAddress) {
+      throw new Error("Connect the CrowdfundingClient to a signer to encrypt amounts");
+    }
+    return this.options.encryptor(amount, await this.getAddress(), await signer.getAddress());
+  }
+
+  /**
+   * Decrypt a single contribution (the backer only under the ACL)
+   */
+  async decryptContribution(projectId: number, backer: string): Promise<bigint> {
+    const contribution = await this.getContribution(projectId, backer);
+    return this.decryptAmount(contribution.encryptedAmount);
+  }
+
+  // ----- Helpers -----
+
+  /**
+   * Decode the events of this contract contained in a receipt
+   */
+  parseEvents(receipt: { logs: ReadonlyArray<{ topics: ReadonlyArray<string>; data: string }> }): LogDescription[] {
+    const events: LogDescription[] = [];
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.contract.interface.parseLog(log);
+        if (parsed) {
+          events.push(parsed);
+        }
+      } catch {
+        // Log emitted by another contract
+      }
+    }
+    return events;
+  }
+
+  private async call<T>(pending: Promise<T>): Promise<T> {
+    try {
+      return await pending;
+    } catch (error: unknown) {
+      throw toCrowdfundingError(error);
+    }
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const tx = await this.call(pending);
+    const receipt = await this.call(tx.wait());
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+}
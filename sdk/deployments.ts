@@ -0,0 +1,120 @@
+import type { InterfaceAbi } from "ethers";
+import { Interface, id } from "ethers";
+
+/**
+ * Deployment Registry
+ *
+ * deployments.json at the repository root holds one manifest per network, written
+ * by the deploy script, so clients never hardcode an address. It is keyed by
+ * network name because hardhat, localhost and anvil all run on chain 31337.
+ */
+
+// Bump whenever the layout of DeploymentRegistry or DeploymentManifest changes
+export const REGISTRY_VERSION = 1;
+
+export interface CompilerSettings {
+  version: string;
+  optimizer: { enabled: boolean; runs: number };
+  evmVersion: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contractName: string;
+  address: string;
+  // The fields below are absent on entries migrated from the address-only registry
+  transactionHash?: string;
+  blockNumber?: number;
+  deployer?: string;
+  // ISO 8601 time the manifest was written
+  deployedAt?: string;
+  compiler?: CompilerSettings;
+  // See hashAbi
+  abiHash?: string;
+}
+
+export interface DeploymentRegistry {
+  version: typeof REGISTRY_VERSION;
+  deployments: Record<string, DeploymentManifest>;
+}
+
+// Layout before REGISTRY_VERSION 1: addresses keyed by decimal chain id
+type LegacyRegistry = Record<string, { network: string; address: string }>;
+
+export class DeploymentNotFoundError extends Error {
+  constructor(
+    public readonly chainId: number,
+    public readonly network?: string,
+  ) {
+    super(
+      network
+        ? `No crowdfunding deployment registered for network "${network}" on chain ${chainId}`
+        : `No crowdfunding deployment registered for chain ${chainId}`,
+    );
+  }
+}
+
+export class UnsupportedRegistryError extends Error {
+  constructor(public readonly version: unknown) {
+    super(`Unsupported deployment registry version ${String(version)} (expected ${REGISTRY_VERSION})`);
+  }
+}
+
+export function emptyRegistry(): DeploymentRegistry {
+  return { version: REGISTRY_VERSION, deployments: {} };
+}
+
+/**
+ * Validate the registry version, upgrading the legacy chain id keyed layout
+ */
+export function parseDeploymentRegistry(raw: unknown): DeploymentRegistry {
+  const data = raw as Partial<DeploymentRegistry> | LegacyRegistry;
+  if (!("version" in data)) {
+    const deployments = Object.entries(data as LegacyRegistry).map(([chainId, entry]): DeploymentManifest => ({
+      network: entry.network,
+      chainId: Number(chainId),
+      contractName: "AnonymousCulturalCrowdfunding",
+      address: entry.address,
+    }));
+    return deployments.reduce(withDeployment, emptyRegistry());
+  }
+  if (data.version !== REGISTRY_VERSION) {
+    throw new UnsupportedRegistryError(data.version);
+  }
+  return data as DeploymentRegistry;
+}
+
+/**
+ * Look up the deployment of a network, or the most recent one on the chain when no network is given
+ */
+export function getDeployment(
+  registry: DeploymentRegistry,
+  chainId: number | bigint,
+  network?: string,
+): DeploymentManifest {
+  const candidates = Object.values(registry.deployments).filter(
+    (manifest) => manifest.chainId === Number(chainId) && (!network || manifest.network === network),
+  );
+  const latest = candidates.sort((a, b) => (b.deployedAt ?? "").localeCompare(a.deployedAt ?? ""))[0];
+  if (!latest) {
+    throw new DeploymentNotFoundError(Number(chainId), network);
+  }
+  return latest;
+}
+
+/**
+ * Returns a copy of the registry with the manifest of its network replaced, ordered by chain id then network
+ */
+export function withDeployment(registry: DeploymentRegistry, manifest: DeploymentManifest): DeploymentRegistry {
+  const entries = Object.entries({ ...registry.deployments, [manifest.network]: manifest });
+  entries.sort(([a, left], [b, right]) => left.chainId - right.chainId || a.localeCompare(b));
+  return { version: REGISTRY_VERSION, deployments: Object.fromEntries(entries) };
+}
+
+/**
+ * Hash of the normalized ABI, to tell whether a client was built against the deployed contract
+ */
+export function hashAbi(abi: InterfaceAbi): string {
+  return id(Interface.from(abi).formatJson());
+}
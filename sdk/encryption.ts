@@ -0,0 +1,32 @@
+import type { AmountEncryptor } from "./types";
+import { MAX_UINT64 } from "./units";
+
+/**
+ * Encrypted Inputs
+ *
+ * Both the fhevm hardhat plugin and a relayer SDK instance build encrypted
+ * inputs with createEncryptedInput(contract, user).add64(value).encrypt().
+ */
+
+export interface EncryptedInputBuilder {
+  add64(value: bigint | number): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export interface EncryptedInputFactory {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}
+
+/**
+ * AmountEncryptor over fhevm (hardhat) or a relayer SDK instance
+ */
+export function createInputEncryptor(factory: EncryptedInputFactory): AmountEncryptor {
+  return async (amount, contractAddress, userAddress) => {
+    if (amount <= 0n || amount > MAX_UINT64) {
+      throw new RangeError("Encrypted amount must be greater than 0 and fit in a uint64 (in wei)");
+    }
+    const input = factory.createEncryptedInput(contractAddress, userAddress).add64(amount);
+    const { handles, inputProof } = await input.encrypt();
+    return { handle: handles[0], inputProof };
+  };
+}
@@ -0,0 +1,300 @@
+import { AbiCoder, dataSlice } from "ethers";
+
+/**
+ * Crowdfunding Error Catalogue
+ *
+ * Every revert string of AnonymousCulturalCrowdfunding.sol mapped to a stable
+ * code, a typed error class and a hint on how to avoid it.
+ * scripts/check-revert-reasons.ts fails when the contract gains a revert
+ * string that is not listed here.
+ */
+
+export const REVERT_CATALOGUE = {
+  NOT_AUTHORIZED: {
+    reason: "Not authorized",
+    hint: "Owner-only action, or a contribution read by someone other than the backer, the creator or the owner",
+  },
+  PROJECT_DOES_NOT_EXIST: {
+    reason: "Project does not exist",
+    hint: "Project ids start at 1 and go up to projectCounter",
+  },
+  NOT_PROJECT_CREATOR: {
+    reason: "Not project creator",
+    hint: "Send the transaction from the account that created the project",
+  },
+  PROJECT_NOT_ACTIVE: {
+    reason: "Project not active",
+    hint: "Contributions and emergency pauses are only accepted while the project is Active",
+  },
+  PROJECT_DEADLINE_PASSED: {
+    reason: "Project deadline passed",
+    hint: "The funding period is over, finalize the project instead",
+  },
+  TITLE_REQUIRED: {
+    reason: "Title required",
+    hint: "Pass a non-empty title",
+  },
+  DESCRIPTION_REQUIRED: {
+    reason: "Description required",
+    hint: "Pass a non-empty description",
+  },
+  CATEGORY_REQUIRED: {
+    reason: "Category required",
+    hint: "Pass a non-empty category",
+  },
+  FUNDING_PERIOD_TOO_SHORT: {
+    reason: "Funding period too short",
+    hint: "The funding period must be at least MIN_FUNDING_PERIOD (7 days)",
+  },
+  FUNDING_PERIOD_TOO_LONG: {
+    reason: "Funding period too long",
+    hint: "The funding period must be at most MAX_FUNDING_PERIOD (90 days)",
+  },
+  TARGET_AMOUNT_REQUIRED: {
+    reason: "Target amount must be greater than 0",
+    hint: "Pass a target greater than 0 wei",
+  },
+  CONTRIBUTION_REQUIRED: {
+    reason: "Contribution must be greater than 0",
+    hint: "Send a non-zero value with the contribution",
+  },
+  CONTRIBUTION_TOO_LARGE: {
+    reason: "Contribution exceeds uint64",
+    hint: "Contributions are encrypted as uint64, send at most 2^64 - 1 wei per transaction",
+  },
+  INVALID_REQUEST_ID: {
+    reason: "Invalid request ID",
+    hint: "Decryption callbacks are only meant to be called by the decryption oracle",
+  },
+  REQUEST_ALREADY_FULFILLED: {
+    reason: "Request already fulfilled",
+    hint: "The decryption result of this request was already accepted, callbacks cannot be replayed",
+  },
+  DEADLINE_NOT_REACHED: {
+    reason: "Project deadline not reached",
+    hint: "Wait until the deadline has passed before finalizing",
+  },
+  ALREADY_FINALIZED: {
+    reason: "Project already finalized",
+    hint: "The project is no longer Active, finalization only runs once",
+  },
+  FINALIZATION_PENDING: {
+    reason: "Finalization already pending",
+    hint: "Wait for the decryption oracle to settle the finalization requested earlier",
+  },
+  PROJECT_NOT_SUCCESSFUL: {
+    reason: "Project not successful",
+    hint: "Funds can only be withdrawn once the project reached its goal and was finalized",
+  },
+  FUNDS_ALREADY_WITHDRAWN: {
+    reason: "Funds already withdrawn",
+    hint: "The funds of this project were already paid out",
+  },
+  TRANSFER_FAILED: {
+    reason: "Transfer failed",
+    hint: "The creator account rejected the ETH transfer, withdraw from an account that accepts ETH",
+  },
+  PROJECT_NOT_FAILED: {
+    reason: "Project not failed",
+    hint: "Refunds are only available once the project has failed",
+  },
+  NO_CONTRIBUTION_FOUND: {
+    reason: "No contribution found",
+    hint: "Request the refund from the account that contributed",
+  },
+  ALREADY_REFUNDED: {
+    reason: "Already refunded",
+    hint: "The contribution of this account was already refunded",
+  },
+  REFUND_FAILED: {
+    reason: "Refund failed",
+    hint: "The backer account rejected the ETH refund",
+  },
+  NOT_AUTHORIZED_TO_VIEW_AMOUNTS: {
+    reason: "Not authorized to view amounts",
+    hint: "Only the creator and the backers of a project may read its encrypted amounts",
+  },
+  INVALID_OWNER_ADDRESS: {
+    reason: "Invalid owner address",
+    hint: "Ownership cannot be transferred to the zero address",
+  },
+  INVALID_DEPOSIT_AMOUNT: {
+    reason: "Invalid deposit amount",
+    hint: "Deposits and withdrawals must be greater than 0 and fit in a uint64 (in wei)",
+  },
+} as const;
+
+export type CrowdfundingErrorCode = keyof typeof REVERT_CATALOGUE;
+
+/**
+ * Base class of the errors decoded from a contract revert
+ */
+export class CrowdfundingRevertError extends Error {
+  constructor(
+    public readonly code: CrowdfundingErrorCode | "UNKNOWN_REVERT",
+    public readonly reason: string,
+    public readonly hint: string,
+    cause?: unknown,
+  ) {
+    super(reason, { cause });
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A revert string that is not in the catalogue, usually a newer contract version
+ */
+export class UnknownRevertError extends CrowdfundingRevertError {
+  constructor(reason: string, cause?: unknown) {
+    super("UNKNOWN_REVERT", reason, "Update the SDK error catalogue to match the deployed contract", cause);
+  }
+}
+
+function fromCatalogue(code: CrowdfundingErrorCode) {
+  const { reason, hint } = REVERT_CATALOGUE[code];
+  return class extends CrowdfundingRevertError {
+    static readonly code = code;
+    static readonly reason = reason;
+
+    constructor(cause?: unknown) {
+      super(code, reason, hint, cause);
+    }
+  };
+}
+
+export class NotAuthorizedError extends fromCatalogue("NOT_AUTHORIZED") {}
+export class ProjectDoesNotExistError extends fromCatalogue("PROJECT_DOES_NOT_EXIST") {}
+export class NotProjectCreatorError extends fromCatalogue("NOT_PROJECT_CREATOR") {}
+export class ProjectNotActiveError extends fromCatalogue("PROJECT_NOT_ACTIVE") {}
+export class ProjectDeadlinePassedError extends fromCatalogue("PROJECT_DEADLINE_PASSED") {}
+export class TitleRequiredError extends fromCatalogue("TITLE_REQUIRED") {}
+export class DescriptionRequiredError extends fromCatalogue("DESCRIPTION_REQUIRED") {}
+export class CategoryRequiredError extends fromCatalogue("CATEGORY_REQUIRED") {}
+export class FundingPeriodTooShortError extends fromCatalogue("FUNDING_PERIOD_TOO_SHORT") {}
+export class FundingPeriodTooLongError extends fromCatalogue("FUNDING_PERIOD_TOO_LONG") {}
+export class TargetAmountRequiredError extends fromCatalogue("TARGET_AMOUNT_REQUIRED") {}
+export class ContributionRequiredError extends fromCatalogue("CONTRIBUTION_REQUIRED") {}
+export class ContributionTooLargeError extends fromCatalogue("CONTRIBUTION_TOO_LARGE") {}
+export class InvalidRequestIdError extends fromCatalogue("INVALID_REQUEST_ID") {}
+export class RequestAlreadyFulfilledError extends fromCatalogue("REQUEST_ALREADY_FULFILLED") {}
+export class DeadlineNotReachedError extends fromCatalogue("DEADLINE_NOT_REACHED") {}
+export class AlreadyFinalizedError extends fromCatalogue("ALREADY_FINALIZED") {}
+export class FinalizationPendingError extends fromCatalogue("FINALIZATION_PENDING") {}
+export class ProjectNotSuccessfulError extends fromCatalogue("PROJECT_NOT_SUCCESSFUL") {}
+export class FundsAlreadyWithdrawnError extends fromCatalogue("FUNDS_ALREADY_WITHDRAWN") {}
+export class TransferFailedError extends fromCatalogue("TRANSFER_FAILED") {}
+export class ProjectNotFailedError extends fromCatalogue("PROJECT_NOT_FAILED") {}
+export class NoContributionFoundError extends fromCatalogue("NO_CONTRIBUTION_FOUND") {}
+export class AlreadyRefundedError extends fromCatalogue("ALREADY_REFUNDED") {}
+export class RefundFailedError extends fromCatalogue("REFUND_FAILED") {}
+export class NotAuthorizedToViewAmountsError extends fromCatalogue("NOT_AUTHORIZED_TO_VIEW_AMOUNTS") {}
+export class InvalidOwnerAddressError extends fromCatalogue("INVALID_OWNER_ADDRESS") {}
+export class InvalidDepositAmountError extends fromCatalogue("INVALID_DEPOSIT_AMOUNT") {}
+
+const ERROR_CLASSES: Record<CrowdfundingErrorCode, new (cause?: unknown) => CrowdfundingRevertError> = {
+  NOT_AUTHORIZED: NotAuthorizedError,
+  PROJECT_DOES_NOT_EXIST: ProjectDoesNotExistError,
+  NOT_PROJECT_CREATOR: NotProjectCreatorError,
+  PROJECT_NOT_ACTIVE: ProjectNotActiveError,
+  PROJECT_DEADLINE_PASSED: ProjectDeadlinePassedError,
+  TITLE_REQUIRED: TitleRequiredError,
+  DESCRIPTION_REQUIRED: DescriptionRequiredError,
+  CATEGORY_REQUIRED: CategoryRequiredError,
+  FUNDING_PERIOD_TOO_SHORT: FundingPeriodTooShortError,
+  FUNDING_PERIOD_TOO_LONG: FundingPeriodTooLongError,
+  TARGET_AMOUNT_REQUIRED: TargetAmountRequiredError,
+  CONTRIBUTION_REQUIRED: ContributionRequiredError,
+  CONTRIBUTION_TOO_LARGE: ContributionTooLargeError,
+  INVALID_REQUEST_ID: InvalidRequestIdError,
+  REQUEST_ALREADY_FULFILLED: RequestAlreadyFulfilledError,
+  DEADLINE_NOT_REACHED: DeadlineNotReachedError,
+  ALREADY_FINALIZED: AlreadyFinalizedError,
+  FINALIZATION_PENDING: FinalizationPendingError,
+  PROJECT_NOT_SUCCESSFUL: ProjectNotSuccessfulError,
+  FUNDS_ALREADY_WITHDRAWN: FundsAlreadyWithdrawnError,
+  TRANSFER_FAILED: TransferFailedError,
+  PROJECT_NOT_FAILED: ProjectNotFailedError,
+  NO_CONTRIBUTION_FOUND: NoContributionFoundError,
+  ALREADY_REFUNDED: AlreadyRefundedError,
+  REFUND_FAILED: RefundFailedError,
+  NOT_AUTHORIZED_TO_VIEW_AMOUNTS: NotAuthorizedToViewAmountsError,
+  INVALID_OWNER_ADDRESS: InvalidOwnerAddressError,
+  INVALID_DEPOSIT_AMOUNT: InvalidDepositAmountError,
+};
+
+// Error(string) selector of a Solidity require / revert with a reason
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+export function findErrorCode(reason: string): CrowdfundingErrorCode | undefined {
+  return (Object.keys(REVERT_CATALOGUE) as CrowdfundingErrorCode[]).find(
+    (code) => REVERT_CATALOGUE[code].reason === reason,
+  );
+}
+
+/**
+ * Extract the revert string from an ethers / hardhat error, if there is one
+ */
+export function getRevertReason(error: unknown): string | undefined {
+  const err = error as {
+    reason?: unknown;
+    revert?: { name?: string; args?: unknown[] };
+    data?: unknown;
+    message?: unknown;
+    error?: unknown;
+  } | null;
+
+  if (!err || typeof err !== "object") {
+    return undefined;
+  }
+
+  if (typeof err.reason === "string") {
+    return err.reason;
+  }
+
+  if (err.revert?.name === "Error" && err.revert.args?.length) {
+    return String(err.revert.args[0]);
+  }
+
+  if (typeof err.data === "string" && err.data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(err.data, 4))[0];
+    } catch {
+      // Malformed revert data, fall through
+    }
+  }
+
+  if (typeof err.message === "string") {
+    const match = err.message.match(/reverted with reason string '(.*)'/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  // JSON-RPC providers nest the original error
+  return err.error === undefined ? undefined : getRevertReason(err.error);
+}
+
+/**
+ * Decode an error into its catalogue class, or undefined when it is not a revert with a reason
+ */
+export function decodeCrowdfundingError(error: unknown): CrowdfundingRevertError | undefined {
+  if (error instanceof CrowdfundingRevertError) {
+    return error;
+  }
+
+  const reason = getRevertReason(error);
+  if (reason === undefined) {
+    return undefined;
+  }
+
+  const code = findErrorCode(reason);
+  return code ? new ERROR_CLASSES[code](error) : new UnknownRevertError(reason, error);
+}
+
+/**
+ * Same as decodeCrowdfundingError but hands back the original error when it cannot be decoded,
+ * meant for rethrowing
+ */
+export function toCrowdfundingError(error: unknown): unknown {
+  return decodeCrowdfundingError(error) ?? error;
+}
@@ -0,0 +1,13 @@
+/**
+ * Anonymous Cultural Crowdfunding SDK
+ *
+ * Shared client used by the hardhat tasks, the tests and the frontend.
+ */
+
+export * from "./CrowdfundingClient";
+export * from "./deployments";
+export * from "./encryption";
+export * from "./errors";
+export * from "./lifecycle";
+export * from "./types";
+export * from "./units";
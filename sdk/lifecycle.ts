@@ -0,0 +1,62 @@
+import type { CrowdfundingErrorCode } from "./errors";
+import { REVERT_CATALOGUE } from "./errors";
+import type { ContributionStatus, DecryptionRequest, Project } from "./types";
+import { DecryptionKind, ProjectStatus } from "./types";
+
+/**
+ * Lifecycle preconditions
+ *
+ * Client-side copies of the require() checks of finalizeProject,
+ * withdrawFunds and requestRefund, so a UI can disable an action instead of
+ * sending a transaction that would revert. The contract stays the source of truth.
+ */
+
+export type ActionCheck =
+  { allowed: true } | { allowed: false; code: CrowdfundingErrorCode; reason: string; hint: string };
+
+function blocked(code: CrowdfundingErrorCode): ActionCheck {
+  return { allowed: false, code, ...REVERT_CATALOGUE[code] };
+}
+
+/**
+ * @param now latest block time, which differs from the wall clock on local networks
+ * @param pending decryption requests of the project still waiting for the oracle
+ */
+export function checkFinalize(project: Project, now: Date, pending: DecryptionRequest[] = []): ActionCheck {
+  if (project.status !== ProjectStatus.Active) {
+    return blocked("ALREADY_FINALIZED");
+  }
+  if (now < project.deadline) {
+    return blocked("DEADLINE_NOT_REACHED");
+  }
+  if (pending.some((request) => request.kind === DecryptionKind.Finalization)) {
+    return blocked("FINALIZATION_PENDING");
+  }
+  return { allowed: true };
+}
+
+export function checkWithdraw(project: Project, account: string): ActionCheck {
+  if (project.creator.toLowerCase() !== account.toLowerCase()) {
+    return blocked("NOT_PROJECT_CREATOR");
+  }
+  if (project.status === ProjectStatus.Withdrawn) {
+    return blocked("FUNDS_ALREADY_WITHDRAWN");
+  }
+  if (project.status !== ProjectStatus.Successful) {
+    return blocked("PROJECT_NOT_SUCCESSFUL");
+  }
+  return { allowed: true };
+}
+
+export function checkRefund(project: Project, contribution: ContributionStatus): ActionCheck {
+  if (project.status !== ProjectStatus.Failed) {
+    return blocked("PROJECT_NOT_FAILED");
+  }
+  if (!contribution.exists) {
+    return blocked("NO_CONTRIBUTION_FOUND");
+  }
+  if (contribution.refunded) {
+    return blocked("ALREADY_REFUNDED");
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,180 @@
+/**
+ * Crowdfunding SDK Types
+ *
+ * Plain TypeScript views of the data exposed by AnonymousCulturalCrowdfunding.
+ * Amounts are in wei, timestamps are converted to Date.
+ */
+
+/**
+ * Mirrors the ProjectStatus enum in AnonymousCulturalCrowdfunding.sol
+ */
+export enum ProjectStatus {
+  Active = 0,
+  Successful = 1,
+  Failed = 2,
+  Withdrawn = 3,
+}
+
+/**
+ * Mirrors the DecryptionKind enum in AnonymousCulturalCrowdfunding.sol
+ */
+export enum DecryptionKind {
+  None = 0,
+  GoalCheck = 1,
+  Finalization = 2,
+  Withdrawal = 3,
+  Refund = 4,
+  DepositWithdrawal = 5,
+  Progress = 6,
+}
+
+/**
+ * A decryption request of the contract, settled when the oracle calls back with signed cleartexts
+ */
+export interface DecryptionRequest {
+  requestId: bigint;
+  kind: DecryptionKind;
+  // 0 for deposit withdrawals
+  projectId: number;
+  // Recipient of withdrawals, refunds and deposit withdrawals, the zero address otherwise
+  account: string;
+  fulfilled: boolean;
+}
+
+export interface Project {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  creator: string;
+  deadline: Date;
+  status: ProjectStatus;
+  createdAt: Date;
+  backerCount: number;
+  metadataHash: string;
+}
+
+export interface Contribution {
+  projectId: number;
+  backer: string;
+  // Handle of the encrypted total of all contributions, decrypt it with CrowdfundingClient.decryptAmount
+  encryptedAmount: string;
+  exists: boolean;
+  // Time of the latest contribution
+  timestamp: Date;
+  refunded: boolean;
+  supportMessage: string;
+  // Drawn from the deposit pool, refunded back into it
+  confidential: boolean;
+}
+
+/**
+ * A single contribution of a backer, Contribution holds the total of all of them
+ */
+export interface ContributionRecord {
+  // Handle of the encrypted amount of this contribution
+  encryptedAmount: string;
+  timestamp: Date;
+  supportMessage: string;
+  confidential: boolean;
+}
+
+/**
+ * The publicly readable part of a contribution
+ */
+export type ContributionStatus = Pick<Contribution, "projectId" | "backer" | "exists" | "timestamp" | "refunded">;
+
+/**
+ * A backed project with the backer's own contribution
+ */
+export interface PortfolioEntry {
+  project: Project;
+  contribution: Contribution;
+}
+
+/**
+ * A status change of a project, read from the event that caused it
+ */
+export interface StatusChange {
+  status: ProjectStatus;
+  event: "ProjectCreated" | "ProjectFunded" | "ProjectFailed" | "FundsWithdrawn";
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: Date;
+}
+
+/**
+ * Coarse progress a creator opted in to publish, computed under FHE without revealing the amounts
+ */
+export interface PublishedProgress {
+  // Quarter of the target reached: 0, 25, 50, 75 or 100
+  percent: number;
+  updatedAt: Date;
+}
+
+export interface PlatformStats {
+  totalProjects: number;
+  activeProjects: number;
+  successfulProjects: number;
+  failedProjects: number;
+}
+
+export interface CreateProjectParams {
+  title: string;
+  description: string;
+  category: string;
+  // Funding target in wei, must fit in a uint64
+  target: bigint;
+  // Funding period in seconds
+  fundingPeriod: bigint | number;
+  metadataHash?: string;
+}
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Decrypts a euint64 handle of the crowdfunding contract on behalf of the connected account.
+ * In hardhat this wraps fhevm.userDecryptEuint, in the browser the relayer SDK user decryption.
+ */
+export type AmountDecryptor = (handle: string, contractAddress: string) => Promise<bigint>;
+
+/**
+ * A euint64 encrypted for the crowdfunding contract and the sending account, see AmountEncryptor
+ */
+export interface EncryptedAmount {
+  handle: Uint8Array | string;
+  inputProof: Uint8Array | string;
+}
+
+/**
+ * Encrypts an amount as an externalEuint64 input bound to the contract and the sending account.
+ * Build one from fhevm (hardhat) or a relayer SDK instance with createInputEncryptor.
+ */
+export type AmountEncryptor = (
+  amount: bigint,
+  contractAddress: string,
+  userAddress: string,
+) => Promise<EncryptedAmount>;
+
+export interface ProjectAmounts {
+  target: bigint;
+  raised: bigint;
+}
+
+/**
+ * Handles of the encrypted target and running total of a project, decrypt them with CrowdfundingClient.decryptAmount
+ */
+export interface ProjectAmountHandles {
+  encryptedTarget: string;
+  encryptedCurrent: string;
+}
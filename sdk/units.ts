@@ -0,0 +1,45 @@
+import { formatEther, parseEther } from "ethers";
+
+/**
+ * Unit conversion helpers
+ *
+ * Targets and contributions are stored as encrypted uint64 values in wei,
+ * which caps a single amount at about 18.44 ETH.
+ */
+
+export const MAX_UINT64 = 2n ** 64n - 1n;
+export const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Parse an ETH amount into wei, checking it is positive and fits in a uint64.
+ */
+export function parseAmount(value: string | number): bigint {
+  let amount: bigint;
+  try {
+    amount = parseEther(String(value));
+  } catch {
+    throw new RangeError(`Invalid amount: ${value}`);
+  }
+
+  if (amount <= 0n || amount > MAX_UINT64) {
+    throw new RangeError(`Amount must be greater than 0 and at most ${formatEther(MAX_UINT64)} ETH`);
+  }
+
+  return amount;
+}
+
+export function formatAmount(wei: bigint): string {
+  return formatEther(wei);
+}
+
+export function daysToSeconds(days: number): bigint {
+  return BigInt(days) * BigInt(SECONDS_PER_DAY);
+}
+
+export function toDate(seconds: bigint | number): Date {
+  return new Date(Number(seconds) * 1000);
+}
+
+export function toTimestamp(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
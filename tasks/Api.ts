@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import type { CrowdfundingDataSource } from "../api";
+import { ChainDataSource, IndexDataSource, createApiServer, createOpenApiDocument } from "../api";
+import { IndexQuery } from "../indexer";
+import { CrowdfundingTaskError, crowdfundingTask, resolveCrowdfunding } from "./CrowdfundingResolver";
+import { defaultIndexFile, loadIndex } from "./Indexer";
+
+/**
+ * API Tasks
+ *
+ * Serves the read-only HTTP API (see api/) from the chain or the local index.
+ *
+ * Usage:
+ *   npx hardhat api:serve --network localhost
+ *   npx hardhat api:serve --indexed --port 4000 --cors "*" --network localhost
+ *   npx hardhat api:openapi --out ./openapi.json
+ */
+
+crowdfundingTask("api:serve", "Serve the read-only crowdfunding HTTP API")
+  .addOptionalParam("port", "Port to listen on", 3000, types.int)
+  .addOptionalParam("host", "Interface to bind", "127.0.0.1")
+  .addOptionalParam("cors", "Value of the Access-Control-Allow-Origin header")
+  .addFlag("indexed", "Serve from the local index (see indexer:run) instead of the chain")
+  .addOptionalParam("db", "Index database file used with --indexed")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    let source: CrowdfundingDataSource;
+
+    if (taskArgs.indexed) {
+      // Reload the index whenever indexer:run rewrote it
+      const file: string = taskArgs.db ?? defaultIndexFile(hre);
+      let query = new IndexQuery(loadIndex(hre, taskArgs));
+      let loadedAt = fs.statSync(file).mtimeMs;
+
+      source = new IndexDataSource(() => {
+        const modifiedAt = fs.statSync(file).mtimeMs;
+        if (modifiedAt !== loadedAt) {
+          query = new IndexQuery(loadIndex(hre, taskArgs));
+          loadedAt = modifiedAt;
+        }
+        return query;
+      });
+    } else {
+      const { client } = await resolveCrowdfunding(hre, taskArgs);
+      source = new ChainDataSource(client);
+    }
+
+    const server = createApiServer(source, {
+      corsOrigin: taskArgs.cors,
+      onError: (error) => console.error(error),
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", (error) =>
+        reject(new CrowdfundingTaskError(`Could not listen on ${taskArgs.host}:${taskArgs.port}`, error)),
+      );
+      server.listen(taskArgs.port, taskArgs.host, resolve);
+    });
+
+    console.log(`Serving the ${source.name} of ${hre.network.name} on http://${taskArgs.host}:${taskArgs.port}`);
+    console.log("Routes: /projects /projects/:id /projects/:id/backers /creators/:address /backers/:address /stats");
+    console.log("OpenAPI document: /openapi.json - press Ctrl+C to stop");
+
+    // Keep the task alive until the process is interrupted
+    await new Promise((resolve) => server.once("close", resolve));
+  });
+
+task("api:openapi", "Write the OpenAPI document of the HTTP API")
+  .addParam("out", "Path of the JSON file to write")
+  .addOptionalParam("server", "Server URL to put in the document")
+  .setAction(async (taskArgs: TaskArguments) => {
+    fs.writeFileSync(taskArgs.out, JSON.stringify(createOpenApiDocument(taskArgs.server), null, 2) + "\n");
+    console.log(`OpenAPI document written to ${taskArgs.out}`);
+  });
@@ -0,0 +1,275 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type {
+  AmountDecryptor,
+  AmountEncryptor,
+  CrowdfundingErrorCode,
+  CrowdfundingRevertError,
+  DeploymentManifest,
+  DeploymentRegistry,
+} from "../sdk";
+import {
+  CrowdfundingClient,
+  DeploymentNotFoundError,
+  createInputEncryptor,
+  emptyRegistry,
+  getDeployment,
+  hashAbi,
+  parseDeploymentRegistry,
+} from "../sdk";
+import type { AnonymousCulturalCrowdfunding } from "../types";
+
+/**
+ * Crowdfunding Contract Resolver
+ *
+ * Shared lookup of the AnonymousCulturalCrowdfunding contract for all tasks.
+ * The address is taken from, in order of precedence:
+ *   1. the --address task parameter
+ *   2. the CROWDFUNDING_ADDRESS environment variable
+ *   3. the manifest of the network in the deployment registry (deployments.json)
+ *   4. the hardhat-deploy deployment named by --deployment
+ *
+ * Failures are raised as typed errors so the hardhat CLI exits with a non-zero code.
+ */
+
+export const CONTRACT_NAME = "AnonymousCulturalCrowdfunding";
+export const ADDRESS_ENV_VARIABLE = "CROWDFUNDING_ADDRESS";
+export const DEFAULT_REGISTRY_FILE = path.join(__dirname, "..", "deployments.json");
+
+// Networks that support evm_setNextBlockTimestamp and can be replayed onto
+export const LOCAL_NETWORKS = ["hardhat", "localhost", "anvil"];
+
+const PLUGIN_NAME = "crowdfunding";
+
+/**
+ * Base class of every error raised by the crowdfunding tasks
+ */
+export class CrowdfundingTaskError extends HardhatPluginError {
+  constructor(message: string, parent?: Error) {
+    super(PLUGIN_NAME, message, parent);
+  }
+}
+
+export class ContractNotFoundError extends CrowdfundingTaskError {
+  constructor(
+    public readonly deploymentName: string,
+    public readonly network: string,
+  ) {
+    super(
+      `No "${deploymentName}" deployment found on network "${network}". ` +
+        `Deploy it first, or pass --address / set ${ADDRESS_ENV_VARIABLE}.`,
+    );
+  }
+}
+
+export class InvalidContractAddressError extends CrowdfundingTaskError {
+  constructor(
+    public readonly address: string,
+    public readonly source: ContractSource,
+  ) {
+    super(`Invalid contract address "${address}" (from ${source})`);
+  }
+}
+
+export class NoContractCodeError extends CrowdfundingTaskError {
+  constructor(
+    public readonly address: string,
+    public readonly source: ContractSource,
+    public readonly network: string,
+  ) {
+    super(`No contract code at ${address} (from ${source}) on network "${network}"`);
+  }
+}
+
+/**
+ * A contract revert decoded through the SDK error catalogue
+ */
+export class ContractRevertTaskError extends CrowdfundingTaskError {
+  public readonly code: CrowdfundingErrorCode | "UNKNOWN_REVERT";
+  public readonly hint: string;
+
+  constructor(error: CrowdfundingRevertError) {
+    super(`Transaction reverted: ${error.reason} [${error.code}]\n  Hint: ${error.hint}`, error);
+    this.code = error.code;
+    this.hint = error.hint;
+  }
+}
+
+export class RegistryFileError extends CrowdfundingTaskError {
+  constructor(
+    public readonly file: string,
+    parent: Error,
+  ) {
+    super(`Could not read the deployment registry ${file}: ${parent.message}`, parent);
+  }
+}
+
+export type ContractSource = "--address" | typeof ADDRESS_ENV_VARIABLE | "registry" | "deployment";
+
+export interface ResolvedContract {
+  contract: AnonymousCulturalCrowdfunding;
+  // SDK client bound to the same signer, decrypting through the fhevm hardhat plugin
+  client: CrowdfundingClient;
+  address: string;
+  source: ContractSource;
+  // Block of the deployment transaction, when known from the registry or hardhat-deploy
+  deploymentBlock?: number;
+}
+
+/**
+ * Read the deployment registry, empty when the file does not exist yet
+ */
+export function loadRegistry(file: string = DEFAULT_REGISTRY_FILE): DeploymentRegistry {
+  if (!fs.existsSync(file)) {
+    return emptyRegistry();
+  }
+  try {
+    return parseDeploymentRegistry(JSON.parse(fs.readFileSync(file, "utf8")));
+  } catch (error: unknown) {
+    throw new RegistryFileError(file, error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+export function saveRegistry(registry: DeploymentRegistry, file: string = DEFAULT_REGISTRY_FILE): void {
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(registry, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Declare a task that operates on the crowdfunding contract.
+ * Adds the --address and --deployment parameters understood by resolveCrowdfunding.
+ */
+export function crowdfundingTask(name: string, description: string): ConfigurableTaskDefinition {
+  return task(name, description)
+    .addOptionalParam("address", `Contract address (overrides ${ADDRESS_ENV_VARIABLE} and --deployment)`)
+    .addOptionalParam("deployment", "Name of the hardhat-deploy deployment", CONTRACT_NAME);
+}
+
+/**
+ * Decrypt euint64 handles as the given signer through the fhevm hardhat plugin
+ */
+export function createHardhatDecryptor(hre: HardhatRuntimeEnvironment, signer: HardhatEthersSigner): AmountDecryptor {
+  let initialized: Promise<void> | undefined;
+
+  return async (handle, contractAddress) => {
+    initialized ??= hre.fhevm.initializeCLIApi();
+    await initialized;
+    return hre.fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+  };
+}
+
+/**
+ * Encrypt amounts for contributeConfidentially through the fhevm hardhat plugin
+ */
+export function createHardhatEncryptor(hre: HardhatRuntimeEnvironment): AmountEncryptor {
+  const encrypt = createInputEncryptor(hre.fhevm);
+  let initialized: Promise<void> | undefined;
+
+  return async (amount, contractAddress, userAddress) => {
+    initialized ??= hre.fhevm.initializeCLIApi();
+    await initialized;
+    return encrypt(amount, contractAddress, userAddress);
+  };
+}
+
+/**
+ * Set up the fhevm plugin, needed before a task sends transactions that use FHE or reads hre.fhevm.isMock.
+ * Outside of hardhat test the in-process network has no fhevm mock, tasks run against a hardhat node instead.
+ */
+export async function initializeFhevm(hre: HardhatRuntimeEnvironment): Promise<void> {
+  try {
+    await hre.fhevm.initializeCLIApi();
+  } catch (error: unknown) {
+    if (hre.network.name !== "hardhat") {
+      throw error;
+    }
+    throw new CrowdfundingTaskError(
+      "The in-process hardhat network has no fhevm mock outside of hardhat test, " +
+        "start npx hardhat node and pass --network localhost",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Resolve the crowdfunding contract for the selected network and check that it has code.
+ */
+export async function resolveCrowdfunding(
+  hre: HardhatRuntimeEnvironment,
+  taskArgs: TaskArguments,
+  signer?: HardhatEthersSigner,
+): Promise<ResolvedContract> {
+  let address: string | undefined;
+  let source: ContractSource;
+  let deploymentBlock: number | undefined;
+
+  if (taskArgs.address) {
+    address = taskArgs.address;
+    source = "--address";
+  } else if (process.env[ADDRESS_ENV_VARIABLE]) {
+    address = process.env[ADDRESS_ENV_VARIABLE];
+    source = ADDRESS_ENV_VARIABLE;
+  } else {
+    const deploymentName: string = taskArgs.deployment ?? CONTRACT_NAME;
+    // The registry only records the crowdfunding contract, other deployment names come from hardhat-deploy
+    const manifest = deploymentName === CONTRACT_NAME ? await findRegistered(hre) : undefined;
+    const deployment = manifest ? undefined : await hre.deployments.getOrNull(deploymentName);
+
+    if (manifest) {
+      address = manifest.address;
+      source = "registry";
+      deploymentBlock = manifest.blockNumber;
+    } else if (deployment) {
+      address = deployment.address;
+      source = "deployment";
+      deploymentBlock = deployment.receipt?.blockNumber;
+    } else {
+      throw new ContractNotFoundError(deploymentName, hre.network.name);
+    }
+  }
+
+  if (!address || !hre.ethers.isAddress(address)) {
+    throw new InvalidContractAddressError(String(address), source);
+  }
+
+  const code = await hre.ethers.provider.getCode(address);
+  if (code === "0x") {
+    throw new NoContractCodeError(address, source, hre.network.name);
+  }
+
+  const runner = signer ?? (await hre.ethers.getSigners())[0];
+  const contract = await hre.ethers.getContractAt(CONTRACT_NAME, address, runner);
+  const client = new CrowdfundingClient(contract, {
+    decryptor: createHardhatDecryptor(hre, runner),
+    encryptor: createHardhatEncryptor(hre),
+  });
+
+  return { contract, client, address, source, deploymentBlock };
+}
+
+/**
+ * The registry manifest of the selected network, warning when it was deployed from another ABI
+ */
+async function findRegistered(hre: HardhatRuntimeEnvironment): Promise<DeploymentManifest | undefined> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  let manifest: DeploymentManifest;
+  try {
+    manifest = getDeployment(loadRegistry(), chainId, hre.network.name);
+  } catch (error: unknown) {
+    if (error instanceof DeploymentNotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const { abi } = await hre.artifacts.readArtifact(CONTRACT_NAME);
+  if (manifest.abiHash && manifest.abiHash !== hashAbi(abi)) {
+    console.warn(`Warning: the ${hre.network.name} deployment was compiled from a different ABI, redeploy it`);
+  }
+  return manifest;
+}
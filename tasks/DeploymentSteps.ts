@@ -0,0 +1,208 @@
+import type { ContractTransactionReceipt } from "ethers";
+import { ZeroAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Deployment } from "hardhat-deploy/types";
+import type { DeploymentManifest, PlatformStats } from "../sdk";
+import { CrowdfundingClient, ProjectStatus, hashAbi, parseAmount, withDeployment } from "../sdk";
+import {
+  CONTRACT_NAME,
+  CrowdfundingTaskError,
+  DEFAULT_REGISTRY_FILE,
+  LOCAL_NETWORKS,
+  initializeFhevm,
+  loadRegistry,
+  saveRegistry,
+} from "./CrowdfundingResolver";
+
+/**
+ * Deployment Steps
+ *
+ * The steps that follow a deployment: recording its manifest, the smoke test and
+ * the ownership handoff. Shared by the deploy script and the deployments tasks,
+ * this module registers no task so the deploy script can import it on its own.
+ */
+
+// The in-process network is reset on every run, a manifest of it would point nowhere
+export const EPHEMERAL_NETWORK = "hardhat";
+
+// Category of the throwaway project the post-deploy smoke test leaves on local deployments
+export const SMOKE_TEST_CATEGORY = "Smoke Test";
+
+export class SmokeTestError extends CrowdfundingTaskError {
+  constructor(message: string) {
+    super(`Smoke test failed: ${message}`);
+  }
+}
+
+export interface SmokeTestReport {
+  owner: string;
+  projectCounter: number;
+  stats: PlatformStats;
+  // Final status of the throwaway project, when one was created
+  throwawayStatus?: ProjectStatus;
+}
+
+/**
+ * Build the manifest of a hardhat-deploy deployment of the crowdfunding contract
+ */
+export async function createManifest(
+  hre: HardhatRuntimeEnvironment,
+  deployment: Deployment,
+): Promise<DeploymentManifest> {
+  const { receipt } = deployment;
+  if (!receipt || !deployment.transactionHash) {
+    throw new CrowdfundingTaskError(`The ${hre.network.name} deployment has no transaction receipt, redeploy it`);
+  }
+
+  const artifact = await hre.artifacts.readArtifact(CONTRACT_NAME);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  if (!buildInfo) {
+    throw new CrowdfundingTaskError(`No build info for ${CONTRACT_NAME}, run npx hardhat compile`);
+  }
+  const { settings } = buildInfo.input;
+  const block = await hre.ethers.provider.getBlock(receipt.blockNumber);
+
+  return {
+    network: hre.network.name,
+    chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+    contractName: CONTRACT_NAME,
+    address: deployment.address,
+    transactionHash: deployment.transactionHash,
+    blockNumber: receipt.blockNumber,
+    deployer: receipt.from,
+    deployedAt: new Date(Number(block?.timestamp ?? 0) * 1000).toISOString(),
+    compiler: {
+      version: buildInfo.solcLongVersion,
+      optimizer: { enabled: settings.optimizer.enabled ?? false, runs: settings.optimizer.runs ?? 200 },
+      evmVersion: settings.evmVersion ?? "default",
+    },
+    abiHash: hashAbi(deployment.abi),
+  };
+}
+
+/**
+ * Write the manifest of the deployment into the registry, skipped on the in-process network
+ */
+export async function recordDeployment(
+  hre: HardhatRuntimeEnvironment,
+  deployment: Deployment,
+  file: string = DEFAULT_REGISTRY_FILE,
+): Promise<DeploymentManifest | undefined> {
+  if (hre.network.name === EPHEMERAL_NETWORK) {
+    return undefined;
+  }
+  const manifest = await createManifest(hre, deployment);
+  saveRegistry(withDeployment(loadRegistry(file), manifest), file);
+  return manifest;
+}
+
+/**
+ * Read owner, projectCounter and getPlatformStats of a deployment and check that they agree
+ */
+export async function runSmokeTest(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  options: { throwawayProject: boolean },
+): Promise<SmokeTestReport> {
+  const contract = await hre.ethers.getContractAt(CONTRACT_NAME, address);
+  const client = new CrowdfundingClient(contract);
+
+  const owner = await client.getOwner();
+  if (owner === ZeroAddress) {
+    throw new SmokeTestError("the contract has no owner");
+  }
+  const projectCounter = await client.getProjectCount();
+  const stats = await client.getPlatformStats();
+  if (stats.totalProjects !== projectCounter) {
+    throw new SmokeTestError(
+      `getPlatformStats counts ${stats.totalProjects} projects, projectCounter ${projectCounter}`,
+    );
+  }
+  if (stats.activeProjects + stats.successfulProjects + stats.failedProjects !== stats.totalProjects) {
+    throw new SmokeTestError("the project statuses of getPlatformStats do not add up to the total");
+  }
+
+  const report: SmokeTestReport = { owner, projectCounter, stats };
+  if (options.throwawayProject) {
+    report.throwawayStatus = await finalizeThrowawayProject(hre, client);
+  }
+  return report;
+}
+
+/**
+ * Create a project on the deployment, let it expire and finalize it.
+ * platform:import still accepts the deployment, it skips projects of the smoke test category.
+ */
+async function finalizeThrowawayProject(
+  hre: HardhatRuntimeEnvironment,
+  client: CrowdfundingClient,
+): Promise<ProjectStatus> {
+  if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+    throw new SmokeTestError(`the throwaway project needs time travel (${LOCAL_NETWORKS.join(", ")} only)`);
+  }
+
+  // Also reached from the deploy script, which runs before any task has set up the plugin
+  await initializeFhevm(hre);
+
+  const { min } = await client.getFundingPeriodLimits();
+  const { projectId } = await client.createProject({
+    title: "Smoke Test",
+    description: "Throwaway project of the post-deploy smoke test",
+    category: SMOKE_TEST_CATEGORY,
+    target: parseAmount("1"),
+    fundingPeriod: min,
+  });
+  await hre.network.provider.send("evm_increaseTime", [Number(min) + 1]);
+  await hre.network.provider.send("evm_mine", []);
+  await client.finalize(projectId);
+
+  // Without backers the decrypted total is below the target
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+  }
+  const { status } = await client.getProject(projectId);
+  if (status === ProjectStatus.Active && !hre.fhevm.isMock) {
+    console.warn("The throwaway project awaits its decryption callback, no mock oracle on this network");
+  } else if (status !== ProjectStatus.Failed) {
+    throw new SmokeTestError(`the throwaway project ended ${ProjectStatus[status]} instead of Failed`);
+  }
+  return status;
+}
+
+/**
+ * Transfer platform ownership to newOwner, a no-op when it already owns the contract
+ */
+export async function handOffOwnership(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  newOwner: string,
+): Promise<ContractTransactionReceipt | undefined> {
+  if (!hre.ethers.isAddress(newOwner) || newOwner === ZeroAddress) {
+    throw new CrowdfundingTaskError(`Invalid platform owner address "${newOwner}"`);
+  }
+
+  const contract = await hre.ethers.getContractAt(CONTRACT_NAME, address);
+  const owner = await contract.owner();
+  if (owner.toLowerCase() === newOwner.toLowerCase()) {
+    return undefined;
+  }
+
+  const signer = (await hre.ethers.getSigners()).find((account) => account.address === owner);
+  if (!signer) {
+    throw new CrowdfundingTaskError(`The contract is owned by ${owner}, which is not a configured account`);
+  }
+  return new CrowdfundingClient(contract).connect(signer).transferOwnership(newOwner);
+}
+
+export function printSmokeTestReport(report: SmokeTestReport): void {
+  const { stats } = report;
+  console.log(`Owner: ${report.owner}`);
+  console.log(`Projects: ${report.projectCounter}`);
+  console.log(
+    `Stats: ${stats.activeProjects} active, ${stats.successfulProjects} successful, ${stats.failedProjects} failed`,
+  );
+  if (report.throwawayStatus !== undefined) {
+    console.log(`Throwaway project: ${ProjectStatus[report.throwawayStatus]}`);
+  }
+  console.log("Smoke test passed");
+}
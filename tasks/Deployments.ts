@@ -0,0 +1,166 @@
+import { JsonRpcProvider } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, HttpNetworkConfig, TaskArguments } from "hardhat/types";
+import type { DeploymentManifest } from "../sdk";
+import { hashAbi } from "../sdk";
+import {
+  CONTRACT_NAME,
+  CrowdfundingTaskError,
+  DEFAULT_REGISTRY_FILE,
+  crowdfundingTask,
+  loadRegistry,
+  resolveCrowdfunding,
+} from "./CrowdfundingResolver";
+import {
+  EPHEMERAL_NETWORK,
+  handOffOwnership,
+  printSmokeTestReport,
+  recordDeployment,
+  runSmokeTest,
+} from "./DeploymentSteps";
+import { toTable } from "./ProjectManager";
+
+/**
+ * Deployment Tasks
+ *
+ * The deploy script records a manifest of every deployment in deployments.json
+ * (see sdk/deployments.ts). The tasks, the indexer and the frontend resolve the
+ * contract address from it. The post-deploy smoke test and ownership handoff
+ * are configured per network in deploy.config.ts, their steps live in
+ * DeploymentSteps.ts.
+ *
+ * Usage:
+ *   npx hardhat deploy --network localhost
+ *   npx hardhat deployments:list
+ *   npx hardhat deployments:list --check
+ *   npx hardhat deployments:record --network sepolia
+ *   npx hardhat deployments:smoke --throwaway --network localhost
+ */
+
+const CHECK_TIMEOUT_MS = 5000;
+
+interface DeploymentRow {
+  network: string;
+  chainId: number | string;
+  address: string;
+  block: number | string;
+  deployedAt: string;
+  abi: "current" | "outdated" | "unknown" | "-";
+  status?: string;
+}
+
+async function checkDeployment(
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  manifest: DeploymentManifest,
+): Promise<string> {
+  if (network === hre.network.name) {
+    return (await hre.ethers.provider.getCode(manifest.address)) === "0x" ? "no code" : "live";
+  }
+  const config = hre.config.networks[network] as HttpNetworkConfig | undefined;
+  if (!config?.url) {
+    return "not configured";
+  }
+
+  const provider = new JsonRpcProvider(config.url, manifest.chainId, { staticNetwork: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const code = await Promise.race([
+      provider.getCode(manifest.address),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("timeout")), CHECK_TIMEOUT_MS);
+      }),
+    ]);
+    return code === "0x" ? "no code" : "live";
+  } catch {
+    return "unreachable";
+  } finally {
+    clearTimeout(timer);
+    provider.destroy();
+  }
+}
+
+task("deployments:list", "List the registered deployments of every configured network")
+  .addOptionalParam("registry", "Registry file to read", DEFAULT_REGISTRY_FILE)
+  .addOptionalParam("format", "Output format: table or json", "table", types.string)
+  .addFlag("check", "Check that each registered address still has contract code")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (!["table", "json"].includes(taskArgs.format)) {
+      throw new CrowdfundingTaskError(`Unknown format: ${taskArgs.format} (expected table or json)`);
+    }
+
+    const registry = loadRegistry(taskArgs.registry);
+    if (taskArgs.format === "json") {
+      console.log(JSON.stringify(registry, null, 2));
+      return;
+    }
+
+    const { abi } = await hre.artifacts.readArtifact(CONTRACT_NAME);
+    const currentAbiHash = hashAbi(abi);
+    const networks = [...new Set([...Object.keys(hre.config.networks), ...Object.keys(registry.deployments)])];
+
+    const rows: DeploymentRow[] = [];
+    for (const network of networks) {
+      const manifest = registry.deployments[network];
+      if (!manifest) {
+        rows.push({
+          network,
+          chainId: hre.config.networks[network]?.chainId ?? "-",
+          address: network === EPHEMERAL_NETWORK ? "(in-process, deployed per run)" : "(not deployed)",
+          block: "-",
+          deployedAt: "-",
+          abi: "-",
+          ...(taskArgs.check ? { status: "-" } : {}),
+        });
+        continue;
+      }
+
+      rows.push({
+        network,
+        chainId: manifest.chainId,
+        address: manifest.address,
+        block: manifest.blockNumber ?? "?",
+        deployedAt: manifest.deployedAt ?? "?",
+        abi: !manifest.abiHash ? "unknown" : manifest.abiHash === currentAbiHash ? "current" : "outdated",
+        ...(taskArgs.check ? { status: await checkDeployment(hre, network, manifest) } : {}),
+      });
+    }
+
+    const columns: (keyof DeploymentRow)[] = ["network", "chainId", "address", "block", "deployedAt", "abi"];
+    console.log(toTable(rows, taskArgs.check ? [...columns, "status"] : columns));
+    console.log(`\nRegistry: ${taskArgs.registry}`);
+  });
+
+task("deployments:record", "Record the hardhat-deploy deployment of the network in the registry")
+  .addOptionalParam("registry", "Registry file to update", DEFAULT_REGISTRY_FILE)
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (hre.network.name === EPHEMERAL_NETWORK) {
+      throw new CrowdfundingTaskError(`The in-process ${EPHEMERAL_NETWORK} network is not recorded, use --network`);
+    }
+    const deployment = await hre.deployments.getOrNull(CONTRACT_NAME);
+    if (!deployment) {
+      throw new CrowdfundingTaskError(`No ${CONTRACT_NAME} deployment on ${hre.network.name}, run npx hardhat deploy`);
+    }
+
+    const manifest = (await recordDeployment(hre, deployment, taskArgs.registry))!;
+    console.log(`Recorded ${manifest.address} for ${manifest.network} (chain ${manifest.chainId})`);
+    console.log(`Registry: ${taskArgs.registry}`);
+  });
+
+crowdfundingTask("deployments:smoke", "Run the post-deploy smoke test against a deployment")
+  .addFlag("throwaway", "Also create and finalize a throwaway project (local networks only)")
+  .addOptionalParam("transferOwner", "Hand platform ownership to this address once the smoke test passed")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { address } = await resolveCrowdfunding(hre, taskArgs);
+    const report = await runSmokeTest(hre, address, { throwawayProject: taskArgs.throwaway });
+    printSmokeTestReport(report);
+
+    if (taskArgs.transferOwner) {
+      const receipt = await handOffOwnership(hre, address, taskArgs.transferOwner);
+      console.log(
+        receipt
+          ? `Ownership transferred to ${taskArgs.transferOwner} in ${receipt.hash}`
+          : `${taskArgs.transferOwner} already owns the contract`,
+      );
+    }
+  });
@@ -0,0 +1,138 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { CrowdfundingIndexer, IndexQuery, IndexStore } from "../indexer";
+import { CrowdfundingTaskError, crowdfundingTask, resolveCrowdfunding } from "./CrowdfundingResolver";
+
+/**
+ * Indexer Tasks
+ *
+ * Keeps a local event index of the crowdfunding contract (see indexer/).
+ * project:list and project:stats read from it with --indexed.
+ *
+ * Usage:
+ *   npx hardhat indexer:run --network localhost
+ *   npx hardhat indexer:run --once --from-block 0 --db ./my-index.json --network localhost
+ *   npx hardhat indexer:status --network localhost
+ *   npx hardhat project:list --indexed --network localhost
+ */
+
+const INDEX_DIRECTORY = ".indexer";
+
+export function defaultIndexFile(hre: HardhatRuntimeEnvironment): string {
+  return path.join(INDEX_DIRECTORY, `${hre.network.name}.json`);
+}
+
+/**
+ * Load the index written by indexer:run, selected with --db
+ */
+export function loadIndex(hre: HardhatRuntimeEnvironment, taskArgs: TaskArguments): IndexStore {
+  const file: string = taskArgs.db ?? defaultIndexFile(hre);
+  if (!fs.existsSync(file)) {
+    throw new CrowdfundingTaskError(`Index not found: ${file}. Run indexer:run first.`);
+  }
+  return IndexStore.load(file);
+}
+
+crowdfundingTask("indexer:run", "Index the crowdfunding contract events into a local database")
+  .addOptionalParam("db", "Index database file (defaults to .indexer/<network>.json)")
+  .addOptionalParam("fromBlock", "First block to index (defaults to the deployment block)", undefined, types.int)
+  .addOptionalParam("interval", "Polling interval in milliseconds", 2000, types.int)
+  .addOptionalParam("batchSize", "Blocks per getLogs request", 2000, types.int)
+  .addFlag("once", "Sync up to the current block and exit")
+  .addFlag("reset", "Delete the existing index and start over")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { contract, address, deploymentBlock } = await resolveCrowdfunding(hre, taskArgs);
+    const file: string = taskArgs.db ?? defaultIndexFile(hre);
+
+    if (taskArgs.reset && fs.existsSync(file)) {
+      fs.unlinkSync(file);
+      console.log(`Deleted ${file}`);
+    }
+
+    let store: IndexStore;
+    try {
+      store = IndexStore.open(file, {
+        chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+        contractAddress: address,
+        startBlock: taskArgs.fromBlock ?? deploymentBlock ?? 0,
+      });
+    } catch (error: unknown) {
+      throw new CrowdfundingTaskError(
+        error instanceof Error ? error.message : String(error),
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const indexer = new CrowdfundingIndexer(contract, hre.ethers.provider, store, {
+      batchSize: taskArgs.batchSize,
+      onProgress: ({ fromBlock, toBlock, head, events }) =>
+        console.log(`Indexed blocks ${fromBlock}-${toBlock} of ${head} (${events} events)`),
+    });
+
+    console.log(
+      `Indexing ${address} on ${hre.network.name} into ${file} ` +
+        `from block ${store.head ? store.head.number + 1 : store.database.startBlock}`,
+    );
+
+    const sync = async () => {
+      const result = await indexer.sync();
+      if (result.reorgedTo !== undefined) {
+        console.warn(`Reorg detected, rolled the index back to block ${result.reorgedTo}`);
+      }
+    };
+
+    if (taskArgs.once) {
+      await sync();
+      console.log(`Index is at block ${store.head?.number ?? "-"} with ${store.database.events.length} events`);
+      return;
+    }
+
+    console.log("Press Ctrl+C to stop");
+    let connected = true;
+    for (;;) {
+      try {
+        await sync();
+        if (!connected) {
+          connected = true;
+          console.log(`Reconnected to ${hre.network.name}`);
+        }
+      } catch (error: unknown) {
+        if (connected) {
+          connected = false;
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`Sync failed (${message}), retrying...`);
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, taskArgs.interval));
+    }
+  });
+
+task("indexer:status", "Show what the local index contains")
+  .addOptionalParam("db", "Index database file (defaults to .indexer/<network>.json)")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const store = loadIndex(hre, taskArgs);
+    const query = new IndexQuery(store);
+    const { database } = store;
+    const stats = query.getPlatformStats();
+    const chainHead = await hre.ethers.provider.getBlockNumber();
+
+    console.log("=== Index ===");
+    console.log(`Contract: ${database.contractAddress} (chain ${database.chainId})`);
+    console.log(`Blocks: ${database.startBlock} - ${query.indexedBlock ?? "-"} (chain head ${chainHead})`);
+    console.log(`Events: ${database.events.length}`);
+    console.log(
+      `Projects: ${stats.totalProjects} (${stats.activeProjects} active, ` +
+        `${stats.successfulProjects} successful, ${stats.failedProjects} failed)`,
+    );
+    console.log(`Withdrawals: ${query.getWithdrawals().length}`);
+    console.log(
+      `Refunds: ${Object.values(database.projects).reduce((count, project) => count + project.refunds.length, 0)}`,
+    );
+
+    const lag = chainHead - (query.indexedBlock ?? database.startBlock - 1);
+    if (lag > 0) {
+      console.warn(`The index is ${lag} block(s) behind the chain, run indexer:run to catch up`);
+    }
+  });
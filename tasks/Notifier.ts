@@ -0,0 +1,110 @@
+import * as fs from "fs";
+import * as path from "path";
+import { types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { NotifierConfig } from "../notifier";
+import { CrowdfundingNotifier, DeadLetterFile, WebhookDispatcher, loadNotifierConfig } from "../notifier";
+import { CrowdfundingTaskError, crowdfundingTask, resolveCrowdfunding } from "./CrowdfundingResolver";
+
+/**
+ * Notifier Tasks
+ *
+ * POSTs signed webhook notifications of the contract events to the creators
+ * listed in a config file (see notifier/config.ts). The last notified block is
+ * kept in a state file so a restarted notifier resumes where it stopped.
+ *
+ * Usage:
+ *   npx hardhat notifier:run --webhooks ./webhooks.yaml --network localhost
+ *   npx hardhat notifier:run --webhooks ./webhooks.json --from-block 1200 --once --network sepolia
+ */
+
+const NOTIFIER_DIRECTORY = ".notifier";
+
+interface NotifierState {
+  lastBlock: number;
+}
+
+function defaultFile(hre: HardhatRuntimeEnvironment, suffix: string): string {
+  return path.join(NOTIFIER_DIRECTORY, `${hre.network.name}${suffix}`);
+}
+
+function readState(file: string): NotifierState | undefined {
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as NotifierState) : undefined;
+}
+
+function writeState(file: string, state: NotifierState): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(state, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+crowdfundingTask("notifier:run", "POST signed webhook notifications of the contract events")
+  .addParam("webhooks", "Webhook configuration file (JSON or YAML)")
+  .addOptionalParam("fromBlock", "Replay from this block instead of resuming from the state file", undefined, types.int)
+  .addOptionalParam("state", "File keeping the last notified block (defaults to .notifier/<network>.json)")
+  .addOptionalParam(
+    "deadLetter",
+    "File receiving undeliverable notifications (defaults to .notifier/<network>.dead-letter.jsonl)",
+  )
+  .addOptionalParam("confirmations", "Blocks to wait before notifying an event", 0, types.int)
+  .addOptionalParam("interval", "Polling interval in milliseconds", 2000, types.int)
+  .addFlag("once", "Notify up to the current block and exit")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    let config: NotifierConfig;
+    try {
+      config = loadNotifierConfig(taskArgs.webhooks);
+    } catch (error: unknown) {
+      throw new CrowdfundingTaskError(
+        `Invalid notifier config ${taskArgs.webhooks}: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const { contract, address } = await resolveCrowdfunding(hre, taskArgs);
+    const stateFile: string = taskArgs.state ?? defaultFile(hre, ".json");
+    const deadLetters = new DeadLetterFile(taskArgs.deadLetter ?? defaultFile(hre, ".dead-letter.jsonl"));
+
+    const state = readState(stateFile);
+    const fromBlock: number | undefined = taskArgs.fromBlock ?? (state ? state.lastBlock + 1 : undefined);
+
+    const notifier = new CrowdfundingNotifier(
+      contract,
+      hre.ethers.provider,
+      config,
+      new WebhookDispatcher(config.retry, deadLetters),
+      {
+        fromBlock,
+        confirmations: taskArgs.confirmations,
+        onDelivery: (payload, target, result) => {
+          const summary = `${payload.event} #${payload.projectId} (${payload.id}) -> ${target.url}`;
+          if (result.delivered) {
+            console.log(`Delivered ${summary}`);
+          } else {
+            console.warn(`Dead-lettered ${summary} after ${result.attempts} attempt(s): ${result.error}`);
+          }
+        },
+        onProgress: ({ toBlock }) => writeState(stateFile, { lastBlock: toBlock }),
+      },
+    );
+
+    console.log(
+      `Notifying ${Object.keys(config.webhooks).length} creator webhook(s) for ${address} on ${hre.network.name} ` +
+        (fromBlock === undefined ? "from the next block" : `from block ${fromBlock}`),
+    );
+    console.log(`Dead letters: ${deadLetters.file}`);
+
+    if (taskArgs.once) {
+      const result = await notifier.sync();
+      console.log(
+        `Notified up to block ${result.lastBlock ?? "-"}: ${result.delivered} delivered, ` +
+          `${result.failed} dead-lettered, ${result.skipped} without webhook`,
+      );
+      return;
+    }
+
+    console.log("Press Ctrl+C to stop");
+    await notifier.run(taskArgs.interval, undefined, (error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Notification round failed (${message}), retrying...`);
+    });
+  });
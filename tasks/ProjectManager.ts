@@ -1,5 +1,38 @@
-import { task, types } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionReceipt } from "ethers";
+import * as fs from "fs";
+import { types } from "hardhat/config";
+import { load as loadYaml } from "js-yaml";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { IndexQuery } from "../indexer";
+import type { CrowdfundingClient, PlatformStats, Project } from "../sdk";
+import {
+  DecryptionKind,
+  NotAuthorizedError,
+  ProjectStatus,
+  SECONDS_PER_DAY,
+  checkRefund,
+  daysToSeconds,
+  decodeCrowdfundingError,
+  formatAmount,
+  parseAmount,
+  toDate,
+  toProjectStatus,
+  toTimestamp,
+} from "../sdk";
+import {
+  CONTRACT_NAME,
+  ContractRevertTaskError,
+  CrowdfundingTaskError,
+  LOCAL_NETWORKS,
+  createHardhatDecryptor,
+  crowdfundingTask,
+  initializeFhevm,
+  resolveCrowdfunding,
+} from "./CrowdfundingResolver";
+import { SMOKE_TEST_CATEGORY } from "./DeploymentSteps";
+import { loadIndex } from "./Indexer";
 
 /**
  * Project Manager Task
@@ -8,29 +41,407 @@ import type { TaskArguments } from "hardhat/types";
  *
  * Usage:
  *   npx hardhat project:stats --network localhost
+ *   npx hardhat project:stats --address 0x... --network sepolia
  *   npx hardhat project:info --id 1 --network localhost
- *   npx hardhat project:create --title "My Project" --target 5 --network localhost
+ *   npx hardhat project:list --status Active --sort deadline --limit 10 --format json --network localhost
+ *   npx hardhat project:list --indexed --creator 0x... --network localhost
+ *   npx hardhat project:create --title "My Project" --description "..." --category Art --target 5 --network localhost
+ *   npx hardhat project:create --title "My Project" --description "..." --category Art --target 5 \
+ *     --period 30 --metadata-file ./project.json --network localhost
+ *   npx hardhat project:contribute --id 1 --amount 0.5 --message "Good luck" --from 2 --network localhost
+ *   npx hardhat backer:deposit --amount 1 --from 2 --network localhost
+ *   npx hardhat project:contribute --id 1 --amount 0.5 --confidential --from 2 --network localhost
+ *   npx hardhat backer:withdraw-deposit --amount 0.5 --from 2 --network localhost
+ *   npx hardhat project:progress --id 1 --from 1 --network localhost
+ *   npx hardhat project:finalize --id 1 --network localhost
+ *   npx hardhat project:withdraw --id 1 --from 1 --network localhost
+ *   npx hardhat project:refund --id 1 --from 2 --network localhost
+ *   npx hardhat project:decrypt --id 1 --from 1 --network localhost
+ *   npx hardhat project:backers --id 1 --from 1 --decrypt --network localhost
+ *   npx hardhat backer:portfolio --from 2 --network localhost
+ *   npx hardhat backer:portfolio --from 2 --refund --network localhost
+ *   npx hardhat project:watch --from-block 0 --network localhost
+ *   npx hardhat project:watch --id 1 --format ndjson --network localhost
+ *   npx hardhat project:watch --from-block 0 --once --network localhost
+ *   npx hardhat project:simulate --scenario success --network localhost
+ *   npx hardhat project:simulate --scenario-file ./scenario.json --network localhost
+ *   npx hardhat project:seed --fixture ./fixtures/projects.yaml --network localhost
+ *   npx hardhat platform:export --out ./sepolia-state.json --network sepolia
+ *   npx hardhat platform:import --in ./sepolia-state.json --network localhost
  */
 
-task(
-  "project:stats",
-  "Display platform statistics",
-)
-  .setAction(async (_taskArgs: TaskArguments, hre) => {
-    const deployments = await hre.deployments.all();
-    const contractAddress = deployments.AnonymousCulturalCrowdfunding?.address;
+type ProjectStatusName = keyof typeof ProjectStatus;
 
-    if (!contractAddress) {
-      console.error("AnonymousCulturalCrowdfunding contract not found");
-      return;
-    }
+const STATUS_NAMES = Object.keys(ProjectStatus).filter((key) => isNaN(Number(key))) as ProjectStatusName[];
 
-    const contract = await hre.ethers.getContractAt(
-      "AnonymousCulturalCrowdfunding",
-      contractAddress,
+function statusName(status: ProjectStatus): ProjectStatusName {
+  return ProjectStatus[status] as ProjectStatusName;
+}
+
+function parseStatus(name: string): ProjectStatus | undefined {
+  const key = STATUS_NAMES.find((status) => status.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : ProjectStatus[key];
+}
+
+const LIST_FORMATS = ["table", "json", "csv"];
+const LIST_SORT_KEYS = ["id", "deadline", "createdAt", "backerCount"] as const;
+const WATCH_FORMATS = ["pretty", "ndjson"];
+
+// Events shown by project:watch, the deposit pool and ownership events belong to no project
+const WATCH_EVENTS = [
+  "ProjectCreated",
+  "AnonymousContributionMade",
+  "ProjectFunded",
+  "ProjectFailed",
+  "RefundProcessed",
+  "FundsWithdrawn",
+];
+
+// Upper bound on the block range of a single eth_getLogs request
+const WATCH_BLOCK_RANGE = 2000;
+
+interface SimulationScenario {
+  // Funding target in ETH
+  target: string;
+  // Funding period in days
+  period: number;
+  // Account index of the project creator
+  creator: number;
+  contributions: { account: number; amount: string; message?: string }[];
+}
+
+const SIMULATION_SCENARIOS: Record<string, SimulationScenario> = {
+  success: {
+    target: "1",
+    period: 7,
+    creator: 1,
+    contributions: [
+      { account: 2, amount: "0.4", message: "Love it" },
+      { account: 3, amount: "0.35" },
+      { account: 4, amount: "0.5", message: "Count me in" },
+    ],
+  },
+  failure: {
+    target: "5",
+    period: 7,
+    creator: 1,
+    contributions: [
+      { account: 2, amount: "0.5" },
+      { account: 3, amount: "0.25", message: "Good luck" },
+    ],
+  },
+  empty: {
+    target: "1",
+    period: 7,
+    creator: 1,
+    contributions: [],
+  },
+};
+
+interface SeedContribution {
+  // Account index of the backer
+  account: number;
+  // Amount in ETH
+  amount: string;
+  message?: string;
+  // Time after the project creation, in seconds or with a unit ("90m", "3h", "2d")
+  offset?: number | string;
+}
+
+interface SeedProject {
+  // Key used to reference the project in the manifest
+  key: string;
+  title: string;
+  description: string;
+  category: string;
+  // Funding target in ETH
+  target: string;
+  // Funding period in days
+  period: number;
+  metadataHash?: string;
+  // Account index of the creator, defaults to the first account
+  creator?: number;
+  contributions?: SeedContribution[];
+}
+
+interface SeedManifest {
+  network: string;
+  chainId: number;
+  contractAddress: string;
+  fixture: string;
+  seededAt: string;
+  projects: Record<string, number>;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: SECONDS_PER_DAY,
+};
+
+function parseDuration(value: number | string | undefined): number {
+  if (value === undefined) {
+    return 0;
+  }
+  if (typeof value === "number") {
+    return value;
+  }
+  const match = value.trim().match(/^(\d+)([smhd]?)$/);
+  if (!match) {
+    throw new CrowdfundingTaskError(`Invalid time offset: ${value}`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+}
+
+// Bump whenever the layout of PlatformSnapshot changes
+const SNAPSHOT_VERSION = 1;
+
+// Seed manifests are local state, kept out of the fixtures directory
+const SEED_DIRECTORY = ".seed";
+
+interface BackerSnapshot {
+  address: string;
+  timestamp: number;
+  refunded: boolean;
+  supportMessage: string;
+  // Contribution in ETH, only known when the exporting accounts could decrypt it
+  amount?: string;
+}
+
+interface ProjectSnapshot {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  creator: string;
+  status: ProjectStatusName;
+  createdAt: number;
+  deadline: number;
+  backerCount: number;
+  metadataHash: string;
+  // Target in ETH, only known when the exporting accounts could decrypt it
+  target?: string;
+  backers: BackerSnapshot[];
+}
+
+interface PlatformSnapshot {
+  version: number;
+  network: string;
+  chainId: number;
+  contractAddress: string;
+  owner: string;
+  blockNumber: number;
+  blockTimestamp: number;
+  exportedAt: string;
+  stats: {
+    totalProjects: number;
+    activeProjects: number;
+    successfulProjects: number;
+    failedProjects: number;
+  };
+  projects: ProjectSnapshot[];
+}
+
+interface ProjectRow {
+  id: number;
+  title: string;
+  category: string;
+  creator: string;
+  status: ProjectStatusName;
+  backerCount: number;
+  createdAt: string;
+  deadline: string;
+  metadataHash: string;
+}
+
+interface BackerRow {
+  backer: string;
+  firstContribution: string;
+  lastContribution: string;
+  refunded: boolean | string;
+  supportMessage: string;
+  // Decrypted contribution in ETH, when requested and allowed by the ACL
+  amount?: string;
+}
+
+interface PortfolioRow {
+  id: number;
+  title: string;
+  status: ProjectStatusName;
+  contributedAt: string;
+  // Decrypted own contribution in ETH, "n/a" when the ACL denies it
+  amount: string;
+  refunded: boolean;
+  // "eligible" or the reason a refund would revert
+  refund: string;
+}
+
+const TABLE_COLUMNS: (keyof ProjectRow)[] = [
+  "id",
+  "title",
+  "category",
+  "status",
+  "backerCount",
+  "deadline",
+  "creator",
+];
+
+const CSV_COLUMNS: (keyof ProjectRow)[] = [
+  "id",
+  "title",
+  "category",
+  "creator",
+  "status",
+  "backerCount",
+  "createdAt",
+  "deadline",
+  "metadataHash",
+];
+
+function sortValue(row: ProjectRow, key: (typeof LIST_SORT_KEYS)[number]): number {
+  switch (key) {
+    case "deadline":
+      return Date.parse(row.deadline);
+    case "createdAt":
+      return Date.parse(row.createdAt);
+    default:
+      return row[key];
+  }
+}
+
+export function toTable<T>(rows: T[], columns: (keyof T & string)[]): string {
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => String(row[column]).length)),
+  );
+  const formatLine = (values: string[]) =>
+    values.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [
+    formatLine(columns),
+    formatLine(widths.map((width) => "-".repeat(width))),
+    ...rows.map((row) => formatLine(columns.map((column) => String(row[column])))),
+  ].join("\n");
+}
+
+function toCsv(rows: ProjectRow[]): string {
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => escape(row[column])).join(",")),
+  ].join("\n");
+}
+
+/**
+ * Resolve the signer selected with --from (an account index or an address).
+ * Defaults to the first configured account.
+ */
+async function getSigner(
+  hre: HardhatRuntimeEnvironment,
+  from?: string,
+): Promise<HardhatEthersSigner | undefined> {
+  const signers = await hre.ethers.getSigners();
+
+  if (from === undefined) {
+    return signers[0];
+  }
+
+  if (/^\d+$/.test(from)) {
+    return signers[Number(from)];
+  }
+
+  if (hre.ethers.isAddress(from)) {
+    const address = from.toLowerCase();
+    return signers.find((signer) => signer.address.toLowerCase() === address);
+  }
+
+  return undefined;
+}
+
+/**
+ * Send a transaction through the SDK and print the decoded events it emitted.
+ * Throws a ContractRevertTaskError carrying the catalogue code and hint when the transaction reverts.
+ */
+async function sendAndReport(
+  client: CrowdfundingClient,
+  send: () => Promise<ContractTransactionReceipt>,
+): Promise<ContractTransactionReceipt> {
+  let receipt: ContractTransactionReceipt;
+  try {
+    receipt = await send();
+  } catch (error: unknown) {
+    const reverted = decodeCrowdfundingError(error);
+    if (reverted) {
+      throw new ContractRevertTaskError(reverted);
+    }
+    const err = error as { shortMessage?: string; message?: string };
+    throw new CrowdfundingTaskError(
+      `Transaction failed: ${err.shortMessage ?? err.message ?? String(error)}`,
+      error instanceof Error ? error : undefined,
     );
+  }
+
+  console.log(`Transaction ${receipt.hash} mined in block ${receipt.blockNumber} (gas used: ${receipt.gasUsed})`);
+  for (const event of client.parseEvents(receipt)) {
+    const args = event.fragment.inputs.map((input, i) => `${input.name}=${event.args[i]}`);
+    console.log(`  Event ${event.name}(${args.join(", ")})`);
+  }
+
+  return receipt;
+}
+
+/**
+ * Load a project or fail with a task error when the id is out of range
+ */
+async function getExistingProject(client: CrowdfundingClient, projectId: number): Promise<Project> {
+  if (!(await client.projectExists(projectId))) {
+    throw new CrowdfundingTaskError(`Project #${projectId} does not exist`);
+  }
+  return client.getProject(projectId);
+}
+
+function parseAmountArg(value: unknown, label: string): bigint {
+  try {
+    return parseAmount(String(value));
+  } catch (error: unknown) {
+    throw new CrowdfundingTaskError(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toJsonValue(value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
 
-    const stats = await contract.getPlatformStats();
+async function getLatestTimestamp(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+}
+
+async function getLatestDate(hre: HardhatRuntimeEnvironment): Promise<Date> {
+  return toDate(await getLatestTimestamp(hre));
+}
+
+crowdfundingTask("project:stats", "Display platform statistics")
+  .addFlag("indexed", "Read from the local index (see indexer:run) instead of the chain")
+  .addOptionalParam("db", "Index database file used with --indexed")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    let stats: PlatformStats;
+    if (taskArgs.indexed) {
+      const query = new IndexQuery(loadIndex(hre, taskArgs));
+      stats = query.getPlatformStats();
+      console.log(`(from the local index at block ${query.indexedBlock ?? "-"})`);
+    } else {
+      const { client } = await resolveCrowdfunding(hre, taskArgs);
+      stats = await client.getPlatformStats();
+    }
 
     console.log("=== Platform Statistics ===");
     console.log(`Total Projects: ${stats.totalProjects}`);
@@ -39,7 +450,7 @@ task(
     console.log(`Failed Projects: ${stats.failedProjects}`);
   });
 
-task("project:info", "Get information about a specific project")
+crowdfundingTask("project:info", "Get information about a specific project")
   .addParam(
     "id",
     "Project ID",
@@ -47,63 +458,1405 @@ task("project:info", "Get information about a specific project")
     types.int,
   )
   .setAction(async (taskArgs: TaskArguments, hre) => {
-    const deployments = await hre.deployments.all();
-    const contractAddress = deployments.AnonymousCulturalCrowdfunding?.address;
-
-    if (!contractAddress) {
-      console.error("AnonymousCulturalCrowdfunding contract not found");
-      return;
-    }
-
-    const contract = await hre.ethers.getContractAt(
-      "AnonymousCulturalCrowdfunding",
-      contractAddress,
-    );
+    const { client } = await resolveCrowdfunding(hre, taskArgs);
 
-    const project = await contract.getProject(taskArgs.id);
+    const project = await getExistingProject(client, taskArgs.id);
 
     console.log(`=== Project #${taskArgs.id} ===`);
     console.log(`Title: ${project.title}`);
     console.log(`Description: ${project.description}`);
     console.log(`Category: ${project.category}`);
     console.log(`Creator: ${project.creator}`);
-    console.log(`Status: ${project.status}`);
-    console.log(`Created: ${new Date(Number(project.createdAt) * 1000).toISOString()}`);
-    console.log(`Deadline: ${new Date(Number(project.deadline) * 1000).toISOString()}`);
+    console.log(`Status: ${statusName(project.status)}`);
+    console.log(`Created: ${project.createdAt.toISOString()}`);
+    console.log(`Deadline: ${project.deadline.toISOString()}`);
     console.log(`Backer Count: ${project.backerCount}`);
     console.log(`Metadata Hash: ${project.metadataHash}`);
+
+    const progress = await client.getPublishedProgress(taskArgs.id);
+    console.log(`Published Progress: ${progress ? `${progress.percent}% or more` : "private"}`);
+
+    const pending = await client.getPendingRequests(taskArgs.id);
+    console.log(`Pending Decryptions: ${pending.map((request) => DecryptionKind[request.kind]).join(", ") || "none"}`);
   });
 
-task("project:list", "List all projects")
-  .setAction(async (_taskArgs: TaskArguments, hre) => {
-    const deployments = await hre.deployments.all();
-    const contractAddress = deployments.AnonymousCulturalCrowdfunding?.address;
+crowdfundingTask("project:list", "List all projects")
+  .addOptionalParam("status", "Only list projects with this status (Active, Successful, Failed, Withdrawn)")
+  .addOptionalParam("category", "Only list projects in this category")
+  .addOptionalParam("creator", "Only list projects created by this address")
+  .addOptionalParam("backer", "Only list projects backed by this address")
+  .addOptionalParam("sort", "Sort by id, deadline, createdAt or backerCount", "id")
+  .addOptionalParam("order", "Sort order (asc or desc)", "asc")
+  .addOptionalParam("limit", "Maximum number of projects to print", undefined, types.int)
+  .addOptionalParam("offset", "Number of projects to skip", 0, types.int)
+  .addOptionalParam("format", "Output format (table, json or csv)", "table")
+  .addFlag("indexed", "Read from the local index (see indexer:run) instead of the chain")
+  .addOptionalParam("db", "Index database file used with --indexed")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (!LIST_FORMATS.includes(taskArgs.format)) {
+      throw new CrowdfundingTaskError(`Unknown format: ${taskArgs.format} (expected ${LIST_FORMATS.join(", ")})`);
+    }
+
+    if (!LIST_SORT_KEYS.includes(taskArgs.sort)) {
+      throw new CrowdfundingTaskError(`Unknown sort key: ${taskArgs.sort} (expected ${LIST_SORT_KEYS.join(", ")})`);
+    }
+
+    if (taskArgs.order !== "asc" && taskArgs.order !== "desc") {
+      throw new CrowdfundingTaskError(`Unknown sort order: ${taskArgs.order} (expected asc or desc)`);
+    }
+
+    let status: ProjectStatus | undefined;
+    if (taskArgs.status !== undefined) {
+      status = parseStatus(taskArgs.status);
+      if (status === undefined) {
+        throw new CrowdfundingTaskError(
+          `Unknown status: ${taskArgs.status} (expected ${STATUS_NAMES.join(", ")})`,
+        );
+      }
+    }
+
+    for (const address of [taskArgs.creator, taskArgs.backer]) {
+      if (address !== undefined && !hre.ethers.isAddress(address)) {
+        throw new CrowdfundingTaskError(`Invalid address: ${address}`);
+      }
+    }
+
+    let projects: Project[];
+    if (taskArgs.indexed) {
+      const query = new IndexQuery(loadIndex(hre, taskArgs));
+      projects = query.listProjects({
+        status,
+        creator: taskArgs.creator,
+        backer: taskArgs.backer,
+        limit: query.getProjectCount(),
+      }).items;
+    } else {
+      const { client } = await resolveCrowdfunding(hre, taskArgs);
+
+      // Narrow the candidate ids with the on-chain indexes when possible
+      let ids: number[];
+      if (taskArgs.creator !== undefined) {
+        ids = await client.getCreatorProjectIds(taskArgs.creator);
+      } else {
+        ids = Array.from({ length: await client.getProjectCount() }, (_, i) => i + 1);
+      }
+
+      if (taskArgs.backer !== undefined) {
+        const backed = new Set(await client.getBackerProjectIds(taskArgs.backer));
+        ids = ids.filter((id) => backed.has(id));
+      }
+
+      projects = await client.getProjects(ids);
+    }
+
+    let rows: ProjectRow[] = [];
+    for (const project of projects) {
+      if (status !== undefined && project.status !== status) {
+        continue;
+      }
+      if (
+        taskArgs.category !== undefined &&
+        project.category.toLowerCase() !== String(taskArgs.category).toLowerCase()
+      ) {
+        continue;
+      }
+
+      rows.push({
+        id: project.id,
+        title: project.title,
+        category: project.category,
+        creator: project.creator,
+        status: statusName(project.status),
+        backerCount: project.backerCount,
+        createdAt: project.createdAt.toISOString(),
+        deadline: project.deadline.toISOString(),
+        metadataHash: project.metadataHash,
+      });
+    }
+
+    const sortKey = taskArgs.sort as (typeof LIST_SORT_KEYS)[number];
+    const direction = taskArgs.order === "desc" ? -1 : 1;
+    rows.sort((a, b) => (sortValue(a, sortKey) - sortValue(b, sortKey)) * direction || a.id - b.id);
+
+    rows = rows.slice(
+      taskArgs.offset,
+      taskArgs.limit === undefined ? undefined : taskArgs.offset + taskArgs.limit,
+    );
+
+    switch (taskArgs.format) {
+      case "json":
+        console.log(JSON.stringify(rows, null, 2));
+        break;
+      case "csv":
+        console.log(toCsv(rows));
+        break;
+      default:
+        if (rows.length === 0) {
+          console.log("No projects found");
+          return;
+        }
+        console.log(toTable(rows, TABLE_COLUMNS));
+    }
+  });
+
+crowdfundingTask("project:create", "Create a new cultural project")
+  .addParam("title", "Project title")
+  .addParam("description", "Project description")
+  .addParam("category", "Project category (Art, Music, Literature, Film, ...)")
+  .addParam("target", "Funding target in ETH")
+  .addOptionalParam(
+    "period",
+    "Funding period in days",
+    30,
+    types.int,
+  )
+  .addOptionalParam("metadataHash", "IPFS hash of additional project data")
+  .addOptionalParam(
+    "metadataFile",
+    "File with additional project data; its sha256 content hash is used as metadata hash",
+  )
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (taskArgs.metadataHash && taskArgs.metadataFile) {
+      throw new CrowdfundingTaskError("Use either --metadata-hash or --metadata-file, not both");
+    }
+
+    let metadataHash: string = taskArgs.metadataHash ?? "";
+    if (taskArgs.metadataFile) {
+      if (!fs.existsSync(taskArgs.metadataFile)) {
+        throw new CrowdfundingTaskError(`Metadata file not found: ${taskArgs.metadataFile}`);
+      }
+      // Hash the raw file bytes so the same file always yields the same hash
+      metadataHash = hre.ethers.sha256(fs.readFileSync(taskArgs.metadataFile));
+    }
+
+    // The target is stored as an encrypted uint64 (in wei)
+    const target = parseAmountArg(taskArgs.target, "Invalid target");
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs);
+
+    // Validate against the on-chain limits before sending the transaction
+    const fundingPeriod = daysToSeconds(taskArgs.period);
+    const { min, max } = await client.getFundingPeriodLimits();
 
-    if (!contractAddress) {
-      console.error("AnonymousCulturalCrowdfunding contract not found");
+    if (fundingPeriod < min || fundingPeriod > max) {
+      throw new CrowdfundingTaskError(
+        `Funding period must be between ${min / BigInt(SECONDS_PER_DAY)} and ` +
+          `${max / BigInt(SECONDS_PER_DAY)} days`,
+      );
+    }
+
+    const receipt = await sendAndReport(client, async () => {
+      const { receipt } = await client.createProject({
+        title: taskArgs.title,
+        description: taskArgs.description,
+        category: taskArgs.category,
+        target,
+        fundingPeriod,
+        metadataHash,
+      });
+      return receipt;
+    });
+
+    const created = client.parseEvents(receipt).find((event) => event.name === "ProjectCreated");
+    if (!created) {
+      throw new CrowdfundingTaskError("ProjectCreated event not found in transaction receipt");
+    }
+
+    console.log(`=== Project #${created.args.projectId} created ===`);
+    console.log(`Title: ${created.args.title}`);
+    console.log(`Category: ${created.args.category}`);
+    console.log(`Deadline: ${toDate(created.args.deadline).toISOString()}`);
+    console.log(`Metadata Hash: ${metadataHash}`);
+    console.log(`Project ID: ${created.args.projectId}`);
+
+    return Number(created.args.projectId);
+  });
+
+crowdfundingTask("project:contribute", "Contribute anonymously to a project")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addParam("amount", "Contribution amount in ETH")
+  .addOptionalParam("message", "Optional support message", "")
+  .addOptionalParam("from", "Account index or address to send from")
+  .addFlag("confidential", "Encrypt the amount and draw it from the deposit pool (see backer:deposit)")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    // Contributions are encrypted as uint64 (in wei)
+    const amount = parseAmountArg(taskArgs.amount, "Invalid amount");
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    if (project.status !== ProjectStatus.Active) {
+      throw new CrowdfundingTaskError(`Project #${taskArgs.id} is not active`);
+    }
+
+    if ((await getLatestDate(hre)) >= project.deadline) {
+      throw new CrowdfundingTaskError(`Project #${taskArgs.id} deadline has passed`);
+    }
+
+    if (await client.hasContributed(taskArgs.id, signer.address)) {
+      console.log(`${signer.address} already contributed to project #${taskArgs.id}, the amounts add up`);
+    }
+
+    if (taskArgs.confidential) {
+      // The contract contributes 0 rather than reverting when the pool does not cover the amount
+      const balance = await client.decryptDepositBalance();
+      if (balance < amount) {
+        throw new CrowdfundingTaskError(
+          `Deposit pool of ${signer.address} holds ${formatAmount(balance)} ETH, run backer:deposit first`,
+        );
+      }
+
+      console.log(`Contributing an encrypted amount to project #${taskArgs.id} from ${signer.address}`);
+      await sendAndReport(client, () => client.contributeConfidentially(taskArgs.id, amount, taskArgs.message));
       return;
     }
 
-    const contract = await hre.ethers.getContractAt(
-      "AnonymousCulturalCrowdfunding",
+    console.log(`Contributing ${formatAmount(amount)} ETH to project #${taskArgs.id} from ${signer.address}`);
+    await sendAndReport(client, () => client.contribute(taskArgs.id, amount, taskArgs.message));
+  });
+
+crowdfundingTask("backer:deposit", "Deposit ETH into the pool that confidential contributions draw from")
+  .addParam("amount", "Deposit amount in ETH")
+  .addOptionalParam("from", "Account index or address to send from")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const amount = parseAmountArg(taskArgs.amount, "Invalid amount");
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    console.log(`Depositing ${formatAmount(amount)} ETH from ${signer.address}`);
+    await sendAndReport(client, () => client.deposit(amount));
+    console.log(`Deposit pool balance: ${formatAmount(await client.decryptDepositBalance())} ETH`);
+  });
+
+crowdfundingTask("backer:withdraw-deposit", "Withdraw ETH from the deposit pool")
+  .addParam("amount", "Withdrawal amount in ETH")
+  .addOptionalParam("from", "Account index or address to send from")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const amount = parseAmountArg(taskArgs.amount, "Invalid amount");
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const balance = await client.decryptDepositBalance();
+    if (balance < amount) {
+      throw new CrowdfundingTaskError(`Deposit pool of ${signer.address} holds ${formatAmount(balance)} ETH`);
+    }
+
+    console.log(`Withdrawing ${formatAmount(amount)} ETH from the deposit pool to ${signer.address}`);
+    await sendAndReport(client, () => client.withdrawDeposit(amount));
+    console.log("The ETH is paid once the decryption oracle confirmed the balance covers it");
+  });
+
+crowdfundingTask("project:progress", "Publish the progress of a project in 25% buckets, or hide it again")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addOptionalParam("from", "Account index or address to send from (must be the creator)")
+  .addFlag("hide", "Stop publishing the progress")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    // Set up before the transaction, the mock oracle settles the progress request below
+    await initializeFhevm(hre);
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    if (project.creator.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new CrowdfundingTaskError(
+        `${signer.address} is not the creator of project #${taskArgs.id} (${project.creator})`,
+      );
+    }
+
+    if (taskArgs.hide) {
+      console.log(`Hiding the progress of project #${taskArgs.id}`);
+      await sendAndReport(client, () => client.setProgressPublished(taskArgs.id, false));
+      return;
+    }
+
+    // Only the number of quarters of the target reached is decrypted, never the amounts
+    console.log(`Publishing the progress of project #${taskArgs.id} in 25% buckets`);
+    await sendAndReport(client, () => client.setProgressPublished(taskArgs.id, true));
+    if (hre.fhevm.isMock) {
+      await hre.fhevm.awaitDecryptionOracle();
+      const progress = await client.getPublishedProgress(taskArgs.id);
+      console.log(`Published progress: ${progress?.percent ?? 0}% or more`);
+    } else {
+      console.log("The bucket is published once the decryption oracle called back");
+    }
+  });
+
+crowdfundingTask("project:finalize", "Finalize a project whose deadline has passed")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addOptionalParam("from", "Account index or address to send from")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    if (project.status !== ProjectStatus.Active) {
+      throw new CrowdfundingTaskError(`Project #${taskArgs.id} is already finalized`);
+    }
+
+    if ((await getLatestDate(hre)) < project.deadline) {
+      throw new CrowdfundingTaskError(
+        `Project #${taskArgs.id} deadline not reached (${project.deadline.toISOString()})`,
+      );
+    }
+
+    const pending = await client.getPendingRequests(taskArgs.id);
+    if (pending.some((request) => request.kind === DecryptionKind.Finalization)) {
+      throw new CrowdfundingTaskError(
+        `Project #${taskArgs.id} is already waiting for its finalization to be decrypted`,
+      );
+    }
+
+    console.log(`Finalizing project #${taskArgs.id} from ${signer.address}`);
+    await sendAndReport(client, () => client.finalize(taskArgs.id));
+  });
+
+crowdfundingTask("project:withdraw", "Withdraw the funds of a successful project")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addOptionalParam("from", "Account index or address to send from (must be the creator)")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    if (project.creator.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new CrowdfundingTaskError(
+        `${signer.address} is not the creator of project #${taskArgs.id} (${project.creator})`,
+      );
+    }
+
+    if (project.status === ProjectStatus.Withdrawn) {
+      throw new CrowdfundingTaskError(`Funds of project #${taskArgs.id} were already withdrawn`);
+    }
+
+    if (project.status !== ProjectStatus.Successful) {
+      throw new CrowdfundingTaskError(`Project #${taskArgs.id} is not successful`);
+    }
+
+    const escrow = await client.decryptProjectEscrow(taskArgs.id);
+    console.log(`Withdrawing the ${formatAmount(escrow)} ETH escrow of project #${taskArgs.id} to ${signer.address}`);
+    await sendAndReport(client, () => client.withdraw(taskArgs.id));
+    console.log("The ETH is paid once the decryption oracle released the escrow");
+  });
+
+crowdfundingTask("project:refund", "Request a refund from a failed project")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addOptionalParam("from", "Account index or address to send from (must be a backer)")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    if (project.status !== ProjectStatus.Failed) {
+      throw new CrowdfundingTaskError(`Project #${taskArgs.id} has not failed`);
+    }
+
+    const contribution = await client.getContribution(taskArgs.id, signer.address);
+    if (!contribution.exists) {
+      throw new CrowdfundingTaskError(`${signer.address} has no contribution to project #${taskArgs.id}`);
+    }
+
+    if (contribution.refunded) {
+      throw new CrowdfundingTaskError(`${signer.address} was already refunded for project #${taskArgs.id}`);
+    }
+
+    console.log(`Requesting refund for project #${taskArgs.id} to ${signer.address}`);
+    await sendAndReport(client, () => client.refund(taskArgs.id));
+  });
+
+crowdfundingTask("project:decrypt", "Decrypt the encrypted amounts of a project as an authorized user")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addOptionalParam("from", "Account index or address of the creator or a backer")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    const isCreator = project.creator.toLowerCase() === signer.address.toLowerCase();
+    const isBacker = await client.hasContributed(taskArgs.id, signer.address);
+
+    // Same rule as getProjectAmounts: only the creator and backers may fetch the handles
+    if (!isCreator && !isBacker) {
+      throw new CrowdfundingTaskError(
+        `Not authorized: ${signer.address} is neither the creator nor a backer of project #${taskArgs.id}`,
+      );
+    }
+
+    const decrypt = async (handle: string): Promise<bigint | undefined> => {
+      try {
+        return await client.decryptAmount(handle);
+      } catch {
+        return undefined;
+      }
+    };
+
+    console.log(`=== Project #${taskArgs.id} (decrypted as ${signer.address}) ===`);
+
+    const amounts = await client.getProjectAmountHandles(taskArgs.id);
+
+    // The ACL only grants the creator access to the target and the running total
+    const target = await decrypt(amounts.encryptedTarget);
+    const raised = project.backerCount === 0 ? 0n : await decrypt(amounts.encryptedCurrent);
+
+    if (target === undefined) {
+      console.log("Target: not authorized (the ACL denies decryption for this account)");
+    } else {
+      console.log(`Target: ${formatAmount(target)} ETH`);
+    }
+
+    if (raised === undefined) {
+      console.log("Raised: not authorized (the ACL denies decryption for this account)");
+    } else {
+      console.log(`Raised: ${formatAmount(raised)} ETH`);
+    }
+
+    if (target !== undefined && raised !== undefined && target > 0n) {
+      const basisPoints = (raised * 10000n) / target;
+      console.log(`Funded: ${(Number(basisPoints) / 100).toFixed(2)}%`);
+    }
+
+    if (isBacker) {
+      const own = await client.getContribution(taskArgs.id, signer.address);
+      const ownAmount = await decrypt(own.encryptedAmount);
+      if (ownAmount === undefined) {
+        console.log("Your contribution: not authorized (the ACL denies decryption for this account)");
+      } else {
+        console.log(`Your contribution: ${formatAmount(ownAmount)} ETH`);
+      }
+    } else {
+      console.log("Your contribution: none");
+    }
+  });
+
+crowdfundingTask("project:watch", "Tail the project events of the crowdfunding contract")
+  .addOptionalParam("fromBlock", "Block to backfill events from (defaults to the current block)", undefined, types.int)
+  .addOptionalParam("id", "Only show events of this project", undefined, types.int)
+  .addOptionalParam("format", "Output format (pretty or ndjson)", "pretty")
+  .addOptionalParam("interval", "Polling interval in milliseconds", 2000, types.int)
+  .addFlag("once", "Print the events up to the current block and exit")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (!WATCH_FORMATS.includes(taskArgs.format)) {
+      throw new CrowdfundingTaskError(`Unknown format: ${taskArgs.format} (expected ${WATCH_FORMATS.join(", ")})`);
+    }
+
+    const { client, address: contractAddress } = await resolveCrowdfunding(hre, taskArgs);
+    const provider = hre.ethers.provider;
+
+    const titles = new Map<bigint, string>();
+    const blockTimes = new Map<number, number>();
+
+    const getTitle = async (projectId: bigint): Promise<string> => {
+      let title = titles.get(projectId);
+      if (title === undefined) {
+        title = (await client.getProject(Number(projectId))).title;
+        titles.set(projectId, title);
+      }
+      return title;
+    };
+
+    const getBlockTime = async (blockNumber: number): Promise<number> => {
+      let time = blockTimes.get(blockNumber);
+      if (time === undefined) {
+        time = (await provider.getBlock(blockNumber))?.timestamp ?? 0;
+        blockTimes.set(blockNumber, time);
+      }
+      return time;
+    };
+
+    const startBlock: number | undefined = taskArgs.fromBlock;
+    let nextBlock: number | undefined = startBlock;
+    let connected = false;
+
+    if (taskArgs.format === "pretty") {
+      console.log(
+        `Watching AnonymousCulturalCrowdfunding at ${contractAddress}` +
+          (taskArgs.id !== undefined ? ` (project #${taskArgs.id})` : "") +
+          " - press Ctrl+C to stop",
+      );
+    }
+
+    for (;;) {
+      try {
+        const head = await provider.getBlockNumber();
+
+        if (!connected) {
+          connected = true;
+          if (taskArgs.format === "pretty") {
+            console.log(`Connected to ${hre.network.name} at block ${head}`);
+          }
+        }
+
+        if (nextBlock === undefined) {
+          nextBlock = head + 1;
+        }
+
+        // A local node that was restarted comes back with a shorter (fresh) chain
+        if (head + 1 < nextBlock) {
+          if (taskArgs.format === "pretty") {
+            console.warn(`Chain head moved back to block ${head}, node restarted? Rescanning.`);
+          }
+          nextBlock = Math.min(startBlock ?? head + 1, head + 1);
+          titles.clear();
+          blockTimes.clear();
+        }
+
+        while (nextBlock <= head) {
+          const toBlock = Math.min(nextBlock + WATCH_BLOCK_RANGE - 1, head);
+          const logs = await provider.getLogs({
+            address: contractAddress,
+            fromBlock: nextBlock,
+            toBlock,
+          });
+
+          for (const log of logs) {
+            const [parsed] = client.parseEvents({ logs: [log] });
+            if (!parsed || !WATCH_EVENTS.includes(parsed.name)) {
+              continue;
+            }
+
+            const projectId: bigint = parsed.args.projectId;
+            if (taskArgs.id !== undefined && projectId !== BigInt(taskArgs.id)) {
+              continue;
+            }
+
+            if (parsed.name === "ProjectCreated") {
+              titles.set(projectId, parsed.args.title);
+            }
+
+            const title = await getTitle(projectId);
+            const timestamp = await getBlockTime(log.blockNumber);
+
+            if (taskArgs.format === "ndjson") {
+              const args = Object.fromEntries(
+                parsed.fragment.inputs.map((input, i) => [input.name, toJsonValue(parsed.args[i])]),
+              );
+              console.log(
+                JSON.stringify({
+                  event: parsed.name,
+                  blockNumber: log.blockNumber,
+                  transactionHash: log.transactionHash,
+                  logIndex: log.index,
+                  timestamp: new Date(timestamp * 1000).toISOString(),
+                  projectId: projectId.toString(),
+                  title,
+                  args,
+                }),
+              );
+            } else {
+              const details = parsed.fragment.inputs
+                .filter((input) => input.name !== "projectId" && input.name !== "title")
+                .map((input) => `${input.name}=${parsed.args[input.name]}`);
+              console.log(
+                `[block ${log.blockNumber} | ${new Date(timestamp * 1000).toISOString()}] ` +
+                  `${parsed.name} #${projectId} "${title}"` +
+                  (details.length > 0 ? ` ${details.join(", ")}` : ""),
+              );
+            }
+          }
+
+          nextBlock = toBlock + 1;
+        }
+      } catch (error: unknown) {
+        if (taskArgs.once) {
+          throw error;
+        }
+        if (connected) {
+          connected = false;
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`Lost connection to ${hre.network.name} (${message}), retrying...`);
+        }
+      }
+
+      if (taskArgs.once) {
+        return;
+      }
+      await sleep(taskArgs.interval);
+    }
+  });
+
+crowdfundingTask("platform:export", "Snapshot all projects, backers and platform stats into a JSON file")
+  .addParam("out", "Path of the snapshot file to write")
+  .addFlag("decrypt", "Decrypt targets and contributions of creators and backers that are local accounts")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const { contract, client, address: contractAddress } = await resolveCrowdfunding(hre, taskArgs);
+
+    // Pin every read to one block so the snapshot is consistent
+    const block = await hre.ethers.provider.getBlock("latest");
+    if (!block) {
+      throw new CrowdfundingTaskError("Could not fetch the latest block");
+    }
+    const blockTag = block.number;
+
+    const signers = await hre.ethers.getSigners();
+    const localSigners = new Map(signers.map((signer) => [signer.address.toLowerCase(), signer]));
+    const decryptAs = (signer: HardhatEthersSigner, handle: string) =>
+      client.connect(signer, { decryptor: createHardhatDecryptor(hre, signer) }).decryptAmount(handle);
+
+    const stats = await contract.getPlatformStats({ blockTag });
+    const projects: ProjectSnapshot[] = [];
+    let decryptedCount = 0;
+
+    for (let id = 1; id <= Number(stats.totalProjects); id++) {
+      const project = await contract.getProject(id, { blockTag });
+      const backers: BackerSnapshot[] = [];
+
+      for (let i = 0; i < Number(project.backerCount); i++) {
+        const address = await contract.projectBackers(id, i, { blockTag });
+        const contribution = await contract.contributions(id, address, { blockTag });
+        const backer: BackerSnapshot = {
+          address,
+          timestamp: Number(contribution.timestamp),
+          refunded: contribution.refunded,
+          supportMessage: contribution.supportMessage,
+        };
+
+        // The backer and the creator both hold the ACL permission on the contribution total
+        const signer = localSigners.get(address.toLowerCase()) ?? localSigners.get(project.creator.toLowerCase());
+        if (taskArgs.decrypt && signer) {
+          try {
+            backer.amount = formatAmount(await decryptAs(signer, contribution.amount));
+            decryptedCount++;
+          } catch {
+            console.warn(`Could not decrypt the contribution of ${address} to project #${id}`);
+          }
+        }
+
+        backers.push(backer);
+      }
+
+      // The creator is the only account allowed to decrypt the target
+      let target: string | undefined;
+      const creator = localSigners.get(project.creator.toLowerCase());
+      if (taskArgs.decrypt && creator) {
+        try {
+          const amounts = await contract.connect(creator).getProjectAmounts(id, { blockTag });
+          target = formatAmount(await decryptAs(creator, amounts.encryptedTarget));
+        } catch {
+          console.warn(`Could not decrypt the target of project #${id}`);
+        }
+      }
+
+      projects.push({
+        id,
+        title: project.title,
+        description: project.description,
+        category: project.category,
+        creator: project.creator,
+        status: statusName(toProjectStatus(project.status)),
+        createdAt: Number(project.createdAt),
+        deadline: Number(project.deadline),
+        backerCount: Number(project.backerCount),
+        metadataHash: project.metadataHash,
+        target,
+        backers,
+      });
+    }
+
+    const snapshot: PlatformSnapshot = {
+      version: SNAPSHOT_VERSION,
+      network: hre.network.name,
+      chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
       contractAddress,
+      owner: await contract.owner({ blockTag }),
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      exportedAt: new Date().toISOString(),
+      stats: {
+        totalProjects: Number(stats.totalProjects),
+        activeProjects: Number(stats.activeProjects),
+        successfulProjects: Number(stats.successfulProjects),
+        failedProjects: Number(stats.failedProjects),
+      },
+      projects,
+    };
+
+    fs.writeFileSync(taskArgs.out, JSON.stringify(snapshot, null, 2) + "\n");
+
+    const contributionCount = projects.reduce((count, project) => count + project.backers.length, 0);
+    console.log(`Exported ${projects.length} projects and ${contributionCount} contributions at block ${block.number}`);
+    if (taskArgs.decrypt) {
+      console.log(`Decrypted ${decryptedCount} of ${contributionCount} contribution amounts`);
+    }
+    console.log(`Snapshot written to ${taskArgs.out}`);
+  });
+
+crowdfundingTask("platform:import", "Replay a platform snapshot onto a fresh local deployment")
+  .addParam("in", "Path of the snapshot file to replay")
+  .addOptionalParam(
+    "defaultAmount",
+    "Contribution in ETH used when the snapshot does not know the amount",
+    "0.01",
+  )
+  .addOptionalParam(
+    "defaultTarget",
+    "Funding target in ETH used when the snapshot does not know the target",
+    "1",
+  )
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new CrowdfundingTaskError(
+        `Snapshots can only be replayed on local networks (${LOCAL_NETWORKS.join(", ")})`,
+      );
+    }
+
+    await initializeFhevm(hre);
+
+    if (!fs.existsSync(taskArgs.in)) {
+      throw new CrowdfundingTaskError(`Snapshot file not found: ${taskArgs.in}`);
+    }
+
+    const snapshot: PlatformSnapshot = JSON.parse(fs.readFileSync(taskArgs.in, "utf8"));
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new CrowdfundingTaskError(
+        `Unsupported snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`,
+      );
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs);
+
+    // Only the throwaway projects of deployments:smoke may precede the imported ones
+    const projectCount = await client.getProjectCount();
+    for (let projectId = 1; projectId <= projectCount; projectId++) {
+      if ((await client.getProject(projectId)).category !== SMOKE_TEST_CATEGORY) {
+        throw new CrowdfundingTaskError("The local deployment already has projects, redeploy it before importing");
+      }
+    }
+
+    // Reuse accounts that exist locally, map every other address to a spare local account
+    const signers = await hre.ethers.getSigners();
+    const participants = [
+      ...new Set(
+        [
+          ...snapshot.projects.map((project) => project.creator),
+          ...snapshot.projects.flatMap((project) => project.backers.map((backer) => backer.address)),
+        ].map((address) => address.toLowerCase()),
+      ),
+    ];
+
+    const accountMap = new Map<string, HardhatEthersSigner>();
+    for (const address of participants) {
+      const local = signers.find((signer) => signer.address.toLowerCase() === address);
+      if (local) {
+        accountMap.set(address, local);
+      }
+    }
+
+    const spare = signers.filter((signer) => ![...accountMap.values()].includes(signer));
+    for (const address of participants) {
+      if (accountMap.has(address)) {
+        continue;
+      }
+      const mapped = spare.shift();
+      if (!mapped) {
+        throw new CrowdfundingTaskError(`Not enough local accounts to replay ${participants.length} participants`);
+      }
+      accountMap.set(address, mapped);
+    }
+
+    console.log("=== Account mapping ===");
+    for (const [address, signer] of accountMap) {
+      console.log(`  ${address} -> ${signer.address}`);
+    }
+
+    const defaultAmount = parseAmountArg(taskArgs.defaultAmount, "Invalid --default-amount");
+    const defaultTarget = parseAmountArg(taskArgs.defaultTarget, "Invalid --default-target");
+    const owner = await hre.ethers.getSigner(await client.getOwner());
+
+    // Replay creations and contributions in their original order, shifted to the local clock
+    type Action =
+      | { time: number; kind: "create"; project: ProjectSnapshot }
+      | { time: number; kind: "contribute"; project: ProjectSnapshot; backer: BackerSnapshot };
+
+    const actions: Action[] = [
+      ...snapshot.projects.map((project): Action => ({ time: project.createdAt, kind: "create", project })),
+      ...snapshot.projects.flatMap((project) =>
+        project.backers.map((backer): Action => ({ time: backer.timestamp, kind: "contribute", project, backer })),
+      ),
+    ].sort((a, b) => a.time - b.time || (a.kind === "create" ? -1 : 1));
+
+    const origin = actions.length > 0 ? actions[0].time : snapshot.blockTimestamp;
+    const base = Number(await getLatestTimestamp(hre)) + 1;
+    const idMap = new Map<number, number>();
+    let lastTime = base - 1;
+
+    const setNextTimestamp = async (originalTime: number) => {
+      // Block timestamps must strictly increase
+      lastTime = Math.max(base + (originalTime - origin), lastTime + 1);
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [lastTime]);
+    };
+
+    for (const action of actions) {
+      const project = action.project;
+      await setNextTimestamp(action.time);
+
+      if (action.kind === "create") {
+        const creator = accountMap.get(project.creator.toLowerCase())!;
+        const { projectId } = await client.connect(creator).createProject({
+          title: project.title,
+          description: project.description,
+          category: project.category,
+          target: project.target ? parseAmountArg(project.target, "Invalid snapshot target") : defaultTarget,
+          fundingPeriod: project.deadline - project.createdAt,
+          metadataHash: project.metadataHash,
+        });
+        idMap.set(project.id, projectId);
+        console.log(`Created project #${projectId} (was #${project.id}) "${project.title}"`);
+      } else {
+        const backer = accountMap.get(action.backer.address.toLowerCase())!;
+        const amount = action.backer.amount
+          ? parseAmountArg(action.backer.amount, "Invalid snapshot amount")
+          : defaultAmount;
+        const projectId = idMap.get(project.id)!;
+        await client.connect(backer).contribute(projectId, amount, action.backer.supportMessage);
+        console.log(`  Contribution of ${formatAmount(amount)} ETH to #${projectId} from ${backer.address}`);
+      }
+    }
+
+    // Move the clock to where it was when the snapshot was taken
+    await setNextTimestamp(snapshot.blockTimestamp);
+    await hre.network.provider.send("evm_mine", []);
+
+    // Statuses other than Active can only be forced for failed projects (through the owner)
+    for (const project of snapshot.projects) {
+      const projectId = idMap.get(project.id)!;
+      if (project.status === "Failed") {
+        await (await client.contract.connect(owner).emergencyPause(projectId)).wait();
+        console.log(`Marked project #${projectId} as Failed`);
+
+        for (const backer of project.backers.filter((b) => b.refunded)) {
+          const signer = accountMap.get(backer.address.toLowerCase())!;
+          await client.connect(signer).refund(projectId);
+          console.log(`  Refund requested by ${signer.address}`);
+        }
+      } else if (project.status !== "Active") {
+        console.warn(
+          `Project #${projectId} was ${project.status}; finalize it with project:finalize to reproduce that status`,
+        );
+      }
+    }
+
+    console.log(
+      `Imported ${snapshot.projects.length} projects from ${snapshot.network} (block ${snapshot.blockNumber})`,
     );
+  });
+
+crowdfundingTask("project:backers", "List the backers of a project with their contribution details")
+  .addParam("id", "Project ID", undefined, types.int)
+  .addOptionalParam("from", "Account index or address reading the contributions")
+  .addFlag("decrypt", "Add decrypted amounts and totals (creator or owner only)")
+  .addOptionalParam("format", "Output format (table or json)", "table")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (taskArgs.format !== "table" && taskArgs.format !== "json") {
+      throw new CrowdfundingTaskError(`Unknown format: ${taskArgs.format} (expected table or json)`);
+    }
 
-    const stats = await contract.getPlatformStats();
-    const totalProjects = Number(stats.totalProjects);
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
 
-    if (totalProjects === 0) {
-      console.log("No projects found");
+    const { contract, client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    const project = await getExistingProject(client, taskArgs.id);
+    const caller = signer.address.toLowerCase();
+    const isCreator = project.creator.toLowerCase() === caller;
+    const isOwner = (await client.getOwner()).toLowerCase() === caller;
+
+    if (taskArgs.decrypt && !isCreator && !isOwner) {
+      throw new CrowdfundingTaskError(
+        `--decrypt is only available to the creator or the owner of project #${taskArgs.id}`,
+      );
+    }
+
+    // The contract only keeps the latest timestamp, the first one comes from the events
+    const contributionEvents = await contract.queryFilter(
+      contract.filters.AnonymousContributionMade(taskArgs.id),
+    );
+    const history = new Map<string, bigint[]>();
+    for (const event of contributionEvents) {
+      const backer = event.args.backer.toLowerCase();
+      history.set(backer, [...(history.get(backer) ?? []), event.args.timestamp]);
+    }
+
+    const rows: BackerRow[] = [];
+    const unreadable: string[] = [];
+    const undecrypted: string[] = [];
+    let total = 0n;
+
+    for (const backer of await client.getBackers(taskArgs.id)) {
+      let contribution;
+      try {
+        // getContribution only answers the backer, the creator and the owner
+        contribution = await client.getContribution(taskArgs.id, backer);
+      } catch (error: unknown) {
+        if (!(error instanceof NotAuthorizedError)) {
+          throw error;
+        }
+        unreadable.push(backer);
+        rows.push({
+          backer,
+          firstContribution: "-",
+          lastContribution: "-",
+          refunded: "-",
+          supportMessage: "(not authorized)",
+        });
+        continue;
+      }
+
+      const timestamps = history.get(backer.toLowerCase());
+      const row: BackerRow = {
+        backer,
+        firstContribution: (timestamps ? toDate(timestamps[0]) : contribution.timestamp).toISOString(),
+        lastContribution: contribution.timestamp.toISOString(),
+        refunded: contribution.refunded,
+        supportMessage: contribution.supportMessage,
+      };
+
+      if (taskArgs.decrypt) {
+        try {
+          const amount = await client.decryptAmount(contribution.encryptedAmount);
+          row.amount = formatAmount(amount);
+          total += amount;
+        } catch {
+          row.amount = "n/a";
+          undecrypted.push(backer);
+        }
+      }
+
+      rows.push(row);
+    }
+
+    let raised: bigint | undefined;
+    if (taskArgs.decrypt && isCreator && project.backerCount > 0) {
+      try {
+        raised = (await client.decryptProjectAmounts(taskArgs.id)).raised;
+      } catch {
+        raised = undefined;
+      }
+    }
+
+    if (taskArgs.format === "json") {
+      console.log(
+        JSON.stringify(
+          {
+            projectId: taskArgs.id,
+            reader: signer.address,
+            backers: rows,
+            unreadable,
+            undecrypted,
+            ...(taskArgs.decrypt
+              ? {
+                  decryptedTotal: formatAmount(total),
+                  raised: raised === undefined ? undefined : formatAmount(raised),
+                }
+              : {}),
+          },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    console.log(`=== Backers of project #${taskArgs.id} "${project.title}" (read as ${signer.address}) ===`);
+    if (rows.length === 0) {
+      console.log("No backers yet");
       return;
     }
 
-    console.log("=== All Projects ===");
-    for (let i = 1; i <= totalProjects; i++) {
-      const project = await contract.getProject(i);
-      const status = ["Active", "Successful", "Failed", "Withdrawn"][Number(project.status)];
-      console.log(`\n[#${i}] ${project.title}`);
-      console.log(`  Category: ${project.category}`);
-      console.log(`  Status: ${status}`);
-      console.log(`  Backers: ${project.backerCount}`);
+    const columns: (keyof BackerRow)[] = [
+      "backer",
+      "firstContribution",
+      "lastContribution",
+      "refunded",
+      "supportMessage",
+    ];
+    console.log(toTable(rows, taskArgs.decrypt ? [...columns, "amount"] : columns));
+
+    if (taskArgs.decrypt) {
+      console.log(
+        `\nDecrypted total: ${formatAmount(total)} ETH ` +
+          `(${rows.length - unreadable.length - undecrypted.length} of ${rows.length} backers)`,
+      );
+      if (raised !== undefined) {
+        console.log(`Raised (project total): ${formatAmount(raised)} ETH`);
+      }
+    }
+
+    if (unreadable.length > 0) {
+      console.log(`\nCould not read ${unreadable.length} contribution(s), getContribution denied access for:`);
+      unreadable.forEach((backer) => console.log(`  ${backer}`));
+    }
+
+    if (undecrypted.length > 0) {
+      console.log(`\nCould not decrypt ${undecrypted.length} amount(s), the ACL denies decryption for:`);
+      undecrypted.forEach((backer) => console.log(`  ${backer}`));
+    }
+  });
+
+crowdfundingTask("backer:portfolio", "List the projects backed by an account with its own contributions")
+  .addOptionalParam("from", "Account index or address of the backer")
+  .addFlag("refund", "Request a refund from every failed project the backer is eligible for")
+  .addOptionalParam("format", "Output format (table or json)", "table")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (taskArgs.format !== "table" && taskArgs.format !== "json") {
+      throw new CrowdfundingTaskError(`Unknown format: ${taskArgs.format} (expected table or json)`);
+    }
+    if (taskArgs.refund && taskArgs.format === "json") {
+      throw new CrowdfundingTaskError("--refund prints transaction logs and cannot be combined with --format json");
+    }
+
+    const signer = await getSigner(hre, taskArgs.from);
+    if (!signer) {
+      throw new CrowdfundingTaskError(`Unknown account: ${taskArgs.from}`);
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs, signer);
+
+    if (taskArgs.refund) {
+      const eligible = (await client.getPortfolio(signer.address)).filter(
+        ({ project, contribution }) => checkRefund(project, contribution).allowed,
+      );
+      if (eligible.length === 0) {
+        console.log(`No refund available for ${signer.address}`);
+      }
+      for (const { project } of eligible) {
+        console.log(`Requesting refund for project #${project.id} to ${signer.address}`);
+        await sendAndReport(client, () => client.refund(project.id));
+      }
+      console.log();
+    }
+
+    const rows: PortfolioRow[] = [];
+    let total = 0n;
+
+    for (const { project, contribution } of await client.getPortfolio(signer.address)) {
+      const refund = checkRefund(project, contribution);
+      let amount: string;
+      try {
+        // The contract grants the backer access with FHE.allow(encryptedAmount, msg.sender)
+        const decrypted = await client.decryptAmount(contribution.encryptedAmount);
+        amount = formatAmount(decrypted);
+        total += decrypted;
+      } catch {
+        amount = "n/a";
+      }
+
+      rows.push({
+        id: project.id,
+        title: project.title,
+        status: statusName(project.status),
+        contributedAt: contribution.timestamp.toISOString(),
+        amount,
+        refunded: contribution.refunded,
+        refund: refund.allowed ? "eligible" : refund.reason,
+      });
+    }
+
+    const refundable = rows.filter((row) => row.refund === "eligible").map((row) => row.id);
+
+    if (taskArgs.format === "json") {
+      console.log(
+        JSON.stringify(
+          { backer: signer.address, projects: rows, decryptedTotal: formatAmount(total), refundable },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    console.log(`=== Portfolio of ${signer.address} ===`);
+    if (rows.length === 0) {
+      console.log("No backed projects");
+      return;
+    }
+
+    console.log(toTable(rows, ["id", "title", "status", "contributedAt", "amount", "refunded", "refund"]));
+    console.log(`\nDecrypted total: ${formatAmount(total)} ETH across ${rows.length} project(s)`);
+
+    if (refundable.length > 0) {
+      console.log(
+        `Eligible for a refund: ${refundable.map((id) => `#${id}`).join(", ")} ` +
+          `(run again with --refund to claim)`,
+      );
+    }
+  });
+
+crowdfundingTask("project:simulate", "Simulate a full project lifecycle with time travel on a local network")
+  .addOptionalParam(
+    "scenario",
+    `Built-in scenario (${Object.keys(SIMULATION_SCENARIOS).join(", ")})`,
+    "success",
+  )
+  .addOptionalParam("scenarioFile", "JSON file with a custom scenario (overrides --scenario)")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new CrowdfundingTaskError(
+        `Simulations need time travel and only run on local networks (${LOCAL_NETWORKS.join(", ")})`,
+      );
+    }
+
+    await initializeFhevm(hre);
+
+    let scenario: SimulationScenario | undefined = SIMULATION_SCENARIOS[taskArgs.scenario];
+    if (taskArgs.scenarioFile) {
+      if (!fs.existsSync(taskArgs.scenarioFile)) {
+        throw new CrowdfundingTaskError(`Scenario file not found: ${taskArgs.scenarioFile}`);
+      }
+      scenario = JSON.parse(fs.readFileSync(taskArgs.scenarioFile, "utf8"));
+    }
+    if (!scenario) {
+      throw new CrowdfundingTaskError(
+        `Unknown scenario: ${taskArgs.scenario} (expected ${Object.keys(SIMULATION_SCENARIOS).join(", ")})`,
+      );
+    }
+
+    // The in-process network starts empty on every run, deploy it on the fly
+    if (hre.network.name === "hardhat" && !taskArgs.address) {
+      await hre.deployments.fixture([CONTRACT_NAME]);
+    }
+
+    const { client } = await resolveCrowdfunding(hre, taskArgs);
+    const signers = await hre.ethers.getSigners();
+    const accountAt = (index: number) => {
+      const signer = signers[index];
+      if (!signer) {
+        throw new CrowdfundingTaskError(`Scenario uses account #${index}, only ${signers.length} are available`);
+      }
+      return signer;
+    };
+
+    const timeline: { time: bigint; step: string; status: string }[] = [];
+    let projectId = 0;
+
+    const record = async (step: string) => {
+      const status = projectId === 0 ? "-" : statusName((await client.getProject(projectId)).status);
+      const previous = timeline[timeline.length - 1];
+      timeline.push({ time: await getLatestTimestamp(hre), step, status });
+      if (previous && previous.status !== status) {
+        console.log(`  Status: ${previous.status} -> ${status}`);
+      }
+    };
+
+    // Pending decryption callbacks are only delivered on demand by the mock oracle
+    const settleDecryptions = async (step: string) => {
+      if (hre.fhevm.isMock) {
+        await hre.fhevm.awaitDecryptionOracle();
+        await record(step);
+      }
+    };
+
+    const creator = accountAt(scenario.creator);
+    console.log(`=== Creating project (creator ${creator.address}, target ${scenario.target} ETH) ===`);
+    ({ projectId } = await client.connect(creator).createProject({
+      title: "Simulated Project",
+      description: "Project created by project:simulate",
+      category: "Simulation",
+      target: parseAmountArg(scenario.target, "Invalid scenario target"),
+      fundingPeriod: daysToSeconds(scenario.period),
+    }));
+    await record(`created project #${projectId}`);
+
+    console.log(`=== Contributing to project #${projectId} ===`);
+    for (const contribution of scenario.contributions) {
+      const backer = accountAt(contribution.account);
+      console.log(`${backer.address} contributes ${contribution.amount} ETH`);
+      const amount = parseAmountArg(contribution.amount, "Invalid scenario amount");
+      await sendAndReport(client, () => client.connect(backer).contribute(projectId, amount, contribution.message));
+      await record(`contribution of ${contribution.amount} ETH from account #${contribution.account}`);
+    }
+    await settleDecryptions("goal checks settled");
+
+    const project = await client.getProject(projectId);
+    const skip = Math.floor((project.deadline.getTime() - (await getLatestDate(hre)).getTime()) / 1000) + 1;
+    console.log(`=== Advancing time by ${skip / SECONDS_PER_DAY} days past the deadline ===`);
+    await hre.network.provider.send("evm_increaseTime", [skip]);
+    await hre.network.provider.send("evm_mine", []);
+    await record("deadline passed");
+
+    if ((await client.getProject(projectId)).status === ProjectStatus.Active) {
+      console.log(`=== Finalizing project #${projectId} ===`);
+      await sendAndReport(client, () => client.finalize(projectId));
+      await record("finalizeProject called");
+      await settleDecryptions("finalization settled");
+    }
+
+    if (!hre.fhevm.isMock) {
+      console.warn("Not running on the fhevm mock, skipping the decryption dependent steps");
+    } else {
+      const status = (await client.getProject(projectId)).status;
+
+      if (status === ProjectStatus.Successful) {
+        console.log(`=== Withdrawing funds of project #${projectId} ===`);
+        await sendAndReport(client, () => client.connect(creator).withdraw(projectId));
+        await record("funds withdrawn");
+        await settleDecryptions("escrow released");
+      } else if (status === ProjectStatus.Failed) {
+        console.log(`=== Refunding the backers of project #${projectId} ===`);
+        for (const contribution of scenario.contributions) {
+          const backer = accountAt(contribution.account);
+          const existing = await client.connect(backer).getContribution(projectId, backer.address);
+          if (existing.refunded) {
+            continue;
+          }
+          await sendAndReport(client, () => client.connect(backer).refund(projectId));
+          await record(`refund requested by account #${contribution.account}`);
+        }
+        await settleDecryptions("refunds settled");
+      }
+    }
+
+    console.log("\n=== Timeline ===");
+    const start = timeline[0].time;
+    for (const entry of timeline) {
+      const offset = Number(entry.time - start) / SECONDS_PER_DAY;
+      console.log(
+        `  ${new Date(Number(entry.time) * 1000).toISOString()} (+${offset.toFixed(2)}d)  ` +
+          `${entry.status.padEnd(10)}  ${entry.step}`,
+      );
     }
   });
+
+crowdfundingTask("project:seed", "Create projects and contributions from a JSON or YAML fixture")
+  .addParam("fixture", "Fixture file (.json, .yaml or .yml)")
+  .addOptionalParam(
+    "manifest",
+    "Where to write the fixture key to project id manifest (defaults to .seed/<network>/<fixture>.json)",
+  )
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new CrowdfundingTaskError(`Seeding only runs on local networks (${LOCAL_NETWORKS.join(", ")})`);
+    }
+
+    await initializeFhevm(hre);
+
+    if (!fs.existsSync(taskArgs.fixture)) {
+      throw new CrowdfundingTaskError(`Fixture file not found: ${taskArgs.fixture}`);
+    }
+
+    const source = fs.readFileSync(taskArgs.fixture, "utf8");
+    const extension = path.extname(taskArgs.fixture).toLowerCase();
+    const fixture = (extension === ".yaml" || extension === ".yml" ? loadYaml(source) : JSON.parse(source)) as {
+      projects?: SeedProject[];
+    };
+
+    const seedProjects = fixture?.projects ?? [];
+    const keys = new Set<string>();
+    for (const project of seedProjects) {
+      if (!project.key) {
+        throw new CrowdfundingTaskError(`Fixture project "${project.title}" has no key`);
+      }
+      if (keys.has(project.key)) {
+        throw new CrowdfundingTaskError(`Duplicate fixture key: ${project.key}`);
+      }
+      keys.add(project.key);
+    }
+
+    // The in-process network starts empty on every run, deploy it on the fly
+    if (hre.network.name === "hardhat" && !taskArgs.address) {
+      await hre.deployments.fixture([CONTRACT_NAME]);
+    }
+
+    const { client, address: contractAddress } = await resolveCrowdfunding(hre, taskArgs);
+    const signers = await hre.ethers.getSigners();
+    const accountAt = (index: number) => {
+      const signer = signers[index];
+      if (!signer) {
+        throw new CrowdfundingTaskError(`Fixture uses account #${index}, only ${signers.length} are available`);
+      }
+      return signer;
+    };
+
+    const manifest: SeedManifest = {
+      network: hre.network.name,
+      chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+      contractAddress,
+      fixture: taskArgs.fixture,
+      seededAt: new Date().toISOString(),
+      projects: {},
+    };
+
+    console.log(`=== Creating ${seedProjects.length} projects ===`);
+    const pending: { time: bigint; projectId: number; project: SeedProject; contribution: SeedContribution }[] = [];
+
+    for (const project of seedProjects) {
+      const creator = accountAt(project.creator ?? 0);
+      const { projectId } = await client.connect(creator).createProject({
+        title: project.title,
+        description: project.description,
+        category: project.category,
+        target: parseAmountArg(project.target, `Invalid target of fixture project "${project.key}"`),
+        fundingPeriod: daysToSeconds(project.period),
+        metadataHash: project.metadataHash,
+      });
+
+      const createdAt = BigInt(toTimestamp((await client.getProject(projectId)).createdAt));
+      manifest.projects[project.key] = projectId;
+      console.log(`  ${project.key} -> #${projectId} "${project.title}"`);
+
+      for (const contribution of project.contributions ?? []) {
+        pending.push({
+          time: createdAt + BigInt(parseDuration(contribution.offset)),
+          projectId,
+          project,
+          contribution,
+        });
+      }
+    }
+
+    // Contributions run in time order across all projects
+    pending.sort((a, b) => (a.time < b.time ? -1 : a.time > b.time ? 1 : 0));
+
+    console.log(`=== Making ${pending.length} contributions ===`);
+    for (const { time, projectId, project, contribution } of pending) {
+      if (time > (await getLatestTimestamp(hre))) {
+        await hre.network.provider.send("evm_setNextBlockTimestamp", [Number(time)]);
+      }
+
+      const backer = accountAt(contribution.account);
+      const amount = parseAmountArg(contribution.amount, `Invalid contribution to fixture project "${project.key}"`);
+      await client.connect(backer).contribute(projectId, amount, contribution.message);
+      console.log(`  ${project.key}: ${contribution.amount} ETH from account #${contribution.account}`);
+    }
+
+    const manifestPath: string =
+      taskArgs.manifest ??
+      path.join(SEED_DIRECTORY, hre.network.name, `${path.basename(taskArgs.fixture, extension)}.json`);
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+    console.log(`Manifest written to ${manifestPath}`);
+  });
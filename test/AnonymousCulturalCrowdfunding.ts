@@ -1,8 +1,27 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { toBeHex } from "ethers";
 import { ethers, fhevm } from "hardhat";
 import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  CrowdfundingClient,
+  DeadlineNotReachedError,
+  DecryptionKind,
+  FinalizationPendingError,
+  InvalidOwnerAddressError,
+  NotAuthorizedError,
+  NotAuthorizedToViewAmountsError,
+  ProjectNotFailedError,
+  ProjectStatus,
+  REVERT_CATALOGUE,
+  checkFinalize,
+  checkRefund,
+  checkWithdraw,
+  createInputEncryptor,
+  daysToSeconds,
+  parseAmount,
+} from "../sdk";
 
 /**
  * AnonymousCulturalCrowdfunding Test Suite
@@ -10,9 +29,14 @@ import { FhevmType } from "@fhevm/hardhat-plugin";
  * This test suite demonstrates:
  * - Project creation with encrypted funding targets
  * - Anonymous contributions with encrypted amounts
+ * - Repeat contributions accumulated with FHE.add and kept in a history
  * - FHE permission management for privacy-preserving operations
  * - Project finalization with encrypted amount verification
  * - Refund processing for failed campaigns
+ * - Per-project escrow accounting of withdrawals and refunds
+ * - Decryption callbacks correlated to their project and authenticated
+ * - Homomorphic goal checks and opt-in progress buckets
+ * - Confidential contributions drawn from an encrypted deposit pool
  */
 
 type Signers = {
@@ -28,14 +52,27 @@ async function deployFixture() {
   )) as AnonymousCulturalCrowdfunding__factory;
   const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
   const contractAddress = await contract.getAddress();
+  const client = new CrowdfundingClient(contract);
 
-  return { contract, contractAddress };
+  return { contract, contractAddress, client };
+}
+
+/**
+ * Client decrypting euint64 handles and encrypting amounts as the given signer through the fhevm mock
+ */
+function decryptingClient(client: CrowdfundingClient, signer: HardhatEthersSigner): CrowdfundingClient {
+  return client.connect(signer, {
+    decryptor: (handle, contractAddress) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer),
+    encryptor: createInputEncryptor(fhevm),
+  });
 }
 
 describe("AnonymousCulturalCrowdfunding", function () {
   let signers: Signers;
   let contract: AnonymousCulturalCrowdfunding;
   let contractAddress: string;
+  let client: CrowdfundingClient;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -56,7 +93,7 @@ describe("AnonymousCulturalCrowdfunding", function () {
       this.skip();
     }
 
-    ({ contract, contractAddress } = await deployFixture());
+    ({ contract, contractAddress, client } = await deployFixture());
   });
 
   describe("Project Creation", function () {
@@ -85,10 +122,29 @@ describe("AnonymousCulturalCrowdfunding", function () {
           ),
       ).to.emit(contract, "ProjectCreated");
 
-      const projectInfo = await contract.getProject(1);
+      const projectInfo = await client.getProject(1);
       expect(projectInfo.title).to.equal(title);
       expect(projectInfo.category).to.equal(category);
       expect(projectInfo.creator).to.equal(signers.creator.address);
+      expect(projectInfo.status).to.equal(ProjectStatus.Active);
+      expect(projectInfo.deadline.getTime() - projectInfo.createdAt.getTime()).to.equal(fundingPeriod * 1000);
+    });
+
+    /**
+     * ✅ DO: Create a project through the SDK client
+     * Demonstrates reading the new project id from the ProjectCreated event
+     */
+    it("should return the new project id from the SDK client", async function () {
+      const { projectId } = await client.connect(signers.creator).createProject({
+        title: "Poetry Collection",
+        description: "Anthology of emerging poets",
+        category: "Literature",
+        target: parseAmount("1"),
+        fundingPeriod: daysToSeconds(30),
+      });
+
+      expect(projectId).to.equal(1);
+      expect(await client.getCreatorProjectIds(signers.creator.address)).to.deep.equal([1]);
     });
 
     /**
@@ -107,7 +163,7 @@ describe("AnonymousCulturalCrowdfunding", function () {
             30 * 24 * 60 * 60,
             "hash",
           ),
-      ).to.be.revertedWith("Title required");
+      ).to.be.revertedWith(REVERT_CATALOGUE.TITLE_REQUIRED.reason);
     });
 
     /**
@@ -126,7 +182,7 @@ describe("AnonymousCulturalCrowdfunding", function () {
             1 * 24 * 60 * 60, // 1 day (minimum is 7 days)
             "hash",
           ),
-      ).to.be.revertedWith("Funding period too short");
+      ).to.be.revertedWith(REVERT_CATALOGUE.FUNDING_PERIOD_TOO_SHORT.reason);
     });
 
     /**
@@ -145,7 +201,7 @@ describe("AnonymousCulturalCrowdfunding", function () {
             30 * 24 * 60 * 60,
             "hash",
           ),
-      ).to.be.revertedWith("Target amount must be greater than 0");
+      ).to.be.revertedWith(REVERT_CATALOGUE.TARGET_AMOUNT_REQUIRED.reason);
     });
   });
 
@@ -181,9 +237,77 @@ describe("AnonymousCulturalCrowdfunding", function () {
       ).to.emit(contract, "AnonymousContributionMade");
 
       // Verify contribution was recorded
-      const contribution = await contract.getContribution(1, signers.backer1.address);
-      expect(contribution.timestamp).to.be.greaterThan(0);
+      const contribution = await client.connect(signers.backer1).getContribution(1, signers.backer1.address);
+      expect(contribution.exists).to.be.true;
       expect(contribution.refunded).to.be.false;
+      expect(contribution.supportMessage).to.equal("Great project!");
+    });
+
+    /**
+     * ✅ DO: Decrypt your own contribution as the backer
+     * Demonstrates user decryption through the SDK client
+     */
+    it("should let the backer decrypt its own contribution", async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Street Festival",
+        description: "Neighbourhood music festival",
+        category: "Music",
+        target: parseAmount("2"),
+        fundingPeriod: daysToSeconds(30),
+      });
+
+      const backerClient = decryptingClient(client, signers.backer1);
+      await backerClient.contribute(1, parseAmount("0.25"), "See you there");
+
+      expect(await backerClient.decryptContribution(1, signers.backer1.address)).to.equal(parseAmount("0.25"));
+      expect(await client.getBackers(1)).to.deep.equal([signers.backer1.address]);
+      expect(await client.hasContributed(1, signers.backer2.address)).to.be.false;
+    });
+
+    /**
+     * ✅ DO: Add repeat contributions up instead of replacing them
+     * Demonstrates the FHE.add running total, the contribution history and the refund of the total
+     */
+    it("should accumulate repeat contributions and refund the total", async function () {
+      const fundingPeriod = daysToSeconds(7);
+      await client.connect(signers.creator).createProject({
+        title: "Folk Archive",
+        description: "Recording traditional songs",
+        category: "Music",
+        target: parseAmount("2"),
+        fundingPeriod,
+      });
+
+      const backerClient = decryptingClient(client, signers.backer1);
+      await backerClient.contribute(1, parseAmount("0.2"), "First round");
+      await backerClient.contribute(1, parseAmount("0.3"));
+      await backerClient.contribute(1, parseAmount("0.1"), "Last round");
+
+      expect((await client.getProject(1)).backerCount).to.equal(1);
+      expect(await backerClient.decryptContribution(1, signers.backer1.address)).to.equal(parseAmount("0.6"));
+      expect((await backerClient.getContribution(1, signers.backer1.address)).supportMessage).to.equal("Last round");
+
+      const history = await backerClient.getContributionHistory(1, signers.backer1.address);
+      expect(history.map(({ supportMessage }) => supportMessage)).to.deep.equal(["First round", "", "Last round"]);
+      expect(history.every(({ confidential }) => !confidential)).to.be.true;
+      const amounts = await Promise.all(history.map((record) => backerClient.decryptAmount(record.encryptedAmount)));
+      expect(amounts).to.deep.equal([parseAmount("0.2"), parseAmount("0.3"), parseAmount("0.1")]);
+      expect(history[0].timestamp.getTime()).to.be.lessThan(history[2].timestamp.getTime());
+      const historyError = await client
+        .connect(signers.backer2)
+        .getContributionHistory(1, signers.backer1.address)
+        .catch((error: unknown) => error);
+      expect(historyError).to.be.instanceOf(NotAuthorizedError);
+
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await client.finalize(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await backerClient.refund(1);
+      const balanceBefore = await ethers.provider.getBalance(signers.backer1.address);
+      await fhevm.awaitDecryptionOracle();
+      expect(await ethers.provider.getBalance(signers.backer1.address)).to.equal(balanceBefore + parseAmount("0.6"));
     });
 
     /**
@@ -206,7 +330,25 @@ describe("AnonymousCulturalCrowdfunding", function () {
         contract
           .connect(signers.backer1)
           .contributeAnonymously(1, "Support message", { value: 0 }),
-      ).to.be.revertedWith("Contribution must be greater than 0");
+      ).to.be.revertedWith(REVERT_CATALOGUE.CONTRIBUTION_REQUIRED.reason);
+    });
+
+    /**
+     * ❌ DON'T: Send more than an euint64 can hold
+     * Demonstrates that the amount is rejected instead of truncated on encryption
+     */
+    it("should reject contributions that do not fit in a uint64", async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Orchestra Season",
+        description: "A full season of concerts",
+        category: "Music",
+        target: parseAmount("1"),
+        fundingPeriod: daysToSeconds(30),
+      });
+
+      await expect(
+        contract.connect(signers.backer1).contributeAnonymously(1, "", { value: 2n ** 64n }),
+      ).to.be.revertedWith(REVERT_CATALOGUE.CONTRIBUTION_TOO_LARGE.reason);
     });
 
     /**
@@ -218,7 +360,7 @@ describe("AnonymousCulturalCrowdfunding", function () {
         contract.connect(signers.backer1).contributeAnonymously(999, "Message", {
           value: ethers.parseEther("1"),
         }),
-      ).to.be.revertedWith("Project does not exist");
+      ).to.be.revertedWith(REVERT_CATALOGUE.PROJECT_DOES_NOT_EXIST.reason);
     });
   });
 
@@ -276,7 +418,7 @@ describe("AnonymousCulturalCrowdfunding", function () {
         );
 
       await expect(contract.finalizeProject(1)).to.be.revertedWith(
-        "Project deadline not reached",
+        REVERT_CATALOGUE.DEADLINE_NOT_REACHED.reason,
       );
     });
   });
@@ -340,7 +482,552 @@ describe("AnonymousCulturalCrowdfunding", function () {
         contract
           .connect(signers.backer1)
           .withdrawFunds(1),
-      ).to.be.revertedWith("Not project creator");
+      ).to.be.revertedWith(REVERT_CATALOGUE.NOT_PROJECT_CREATOR.reason);
+    });
+
+    /**
+     * ✅ DO: Check the lifecycle preconditions before sending a transaction
+     * Demonstrates the SDK checks and status history behind the creator dashboard
+     */
+    it("should enable finalize and withdraw only when they would succeed", async function () {
+      const creatorClient = client.connect(signers.creator);
+      const fundingPeriod = daysToSeconds(7);
+      await creatorClient.createProject({
+        title: "Street Theater",
+        description: "Open air theater tour",
+        category: "Theater",
+        target: parseAmount("1"),
+        fundingPeriod,
+      });
+      await client.connect(signers.backer1).contribute(1, parseAmount("1.5"));
+
+      let project = await client.getProject(1);
+      expect(checkFinalize(project, await client.getChainTime())).to.deep.include({
+        allowed: false,
+        code: "DEADLINE_NOT_REACHED",
+      });
+      expect(checkWithdraw(project, signers.creator.address)).to.deep.include({ code: "PROJECT_NOT_SUCCESSFUL" });
+      expect(checkWithdraw(project, signers.backer1.address)).to.deep.include({ code: "NOT_PROJECT_CREATOR" });
+
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      expect(checkFinalize(project, await client.getChainTime())).to.deep.equal({ allowed: true });
+
+      await client.finalize(1);
+      await fhevm.awaitDecryptionOracle();
+
+      project = await client.getProject(1);
+      expect(project.status).to.equal(ProjectStatus.Successful);
+      expect(checkFinalize(project, await client.getChainTime())).to.deep.include({ code: "ALREADY_FINALIZED" });
+      expect(checkWithdraw(project, signers.creator.address)).to.deep.equal({ allowed: true });
+
+      await creatorClient.withdraw(1);
+      expect(checkWithdraw(await client.getProject(1), signers.creator.address)).to.deep.include({
+        code: "FUNDS_ALREADY_WITHDRAWN",
+      });
+
+      const history = await client.getStatusHistory(1);
+      expect(history.map((change) => change.event)).to.deep.equal([
+        "ProjectCreated",
+        "ProjectFunded",
+        "FundsWithdrawn",
+      ]);
+      expect(history.map((change) => change.status)).to.deep.equal([
+        ProjectStatus.Active,
+        ProjectStatus.Successful,
+        ProjectStatus.Withdrawn,
+      ]);
+    });
+  });
+
+  describe("Escrow Accounting", function () {
+    const fundingPeriod = daysToSeconds(7);
+
+    async function createProjects(count: number): Promise<void> {
+      for (let i = 1; i <= count; i++) {
+        await client.connect(signers.creator).createProject({
+          title: `Escrow Project ${i}`,
+          description: "Project holding its own escrow",
+          category: "Music",
+          target: parseAmount("1"),
+          fundingPeriod,
+        });
+      }
+    }
+
+    async function passDeadline(): Promise<void> {
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    /**
+     * ✅ DO: Pay the creator exactly what their project raised
+     * Demonstrates that a withdrawal leaves the escrow of other projects in the contract
+     */
+    it("should pay the creator exactly the escrow of the project", async function () {
+      await createProjects(2);
+      await client.connect(signers.backer1).contribute(1, parseAmount("1.5"));
+      await client.connect(signers.backer2).contribute(2, parseAmount("0.4"));
+      await fhevm.awaitDecryptionOracle();
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Successful);
+
+      const creatorClient = decryptingClient(client, signers.creator);
+      expect(await creatorClient.decryptProjectEscrow(1)).to.equal(parseAmount("1.5"));
+      await creatorClient.withdraw(1);
+      const balanceBefore = await ethers.provider.getBalance(signers.creator.address);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ethers.provider.getBalance(signers.creator.address)).to.equal(balanceBefore + parseAmount("1.5"));
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(parseAmount("0.4"));
+      expect(await creatorClient.decryptProjectEscrow(1)).to.equal(0n);
+      expect(await creatorClient.decryptProjectEscrow(2)).to.equal(parseAmount("0.4"));
+    });
+
+    /**
+     * ❌ DON'T: Pay refunds to whoever delivers the decryption
+     * Demonstrates that the callback pays the backer recorded with the refund request
+     */
+    it("should refund each backer exactly their contribution", async function () {
+      await createProjects(1);
+      await client.connect(signers.backer1).contribute(1, parseAmount("0.3"));
+      await client.connect(signers.backer2).contribute(1, parseAmount("0.5"));
+      await passDeadline();
+      await client.finalize(1);
+      await fhevm.awaitDecryptionOracle();
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Failed);
+
+      await client.connect(signers.backer1).refund(1);
+      await client.connect(signers.backer2).refund(1);
+      const [balance1, balance2] = await Promise.all([
+        ethers.provider.getBalance(signers.backer1.address),
+        ethers.provider.getBalance(signers.backer2.address),
+      ]);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ethers.provider.getBalance(signers.backer1.address)).to.equal(balance1 + parseAmount("0.3"));
+      expect(await ethers.provider.getBalance(signers.backer2.address)).to.equal(balance2 + parseAmount("0.5"));
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(0n);
+      const released = await contract.queryFilter(contract.filters.EscrowReleased(1));
+      expect(released.map(({ args }) => [args.recipient, args.amount])).to.have.deep.members([
+        [signers.backer1.address, parseAmount("0.3")],
+        [signers.backer2.address, parseAmount("0.5")],
+      ]);
+    });
+
+    /**
+     * ❌ DON'T: Refund a project whose escrow was already paid out
+     * Demonstrates that the owner can only pause Active projects
+     */
+    it("should reject pausing and refunding a withdrawn project", async function () {
+      await createProjects(2);
+      await client.connect(signers.backer1).contribute(1, parseAmount("1.5"));
+      await client.connect(signers.backer2).contribute(2, parseAmount("0.4"));
+      await fhevm.awaitDecryptionOracle();
+      await client.connect(signers.creator).withdraw(1);
+      await fhevm.awaitDecryptionOracle();
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Withdrawn);
+
+      await expect(contract.connect(signers.deployer).emergencyPause(1)).to.be.revertedWith(
+        REVERT_CATALOGUE.PROJECT_NOT_ACTIVE.reason,
+      );
+      const error = await client
+        .connect(signers.backer1)
+        .refund(1)
+        .catch((caught: unknown) => caught);
+      expect(error).to.be.instanceOf(ProjectNotFailedError);
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(parseAmount("0.4"));
+    });
+
+    /**
+     * ✅ DO: Keep the contract balance equal to the outstanding escrows
+     * Demonstrates the invariant across projects, deposit pools, withdrawals and refunds
+     */
+    it("should hold exactly the outstanding escrows and deposits at every step", async function () {
+      const projectCount = 4;
+      const creatorClient = decryptingClient(client, signers.creator);
+      const backerClients = [signers.backer1, signers.backer2].map((signer) => decryptingClient(client, signer));
+      const [backer1, backer2] = backerClients;
+
+      const expectInvariant = async () => {
+        // Payouts are made by the decryption callbacks, the invariant holds once they settled
+        await fhevm.awaitDecryptionOracle();
+        let outstanding = 0n;
+        for (let id = 1; id <= projectCount; id++) {
+          outstanding += await creatorClient.decryptProjectEscrow(id);
+        }
+        for (const backerClient of backerClients) {
+          outstanding += await backerClient.decryptDepositBalance();
+        }
+        expect(await ethers.provider.getBalance(contractAddress)).to.equal(outstanding);
+      };
+
+      await createProjects(projectCount);
+      await expectInvariant();
+
+      // Projects 1 and 2 reach their goal, 3 and 4 fail
+      await backer1.contribute(1, parseAmount("1"));
+      await expectInvariant();
+      await backer2.contribute(2, parseAmount("1.2"));
+      await expectInvariant();
+      await backer1.deposit(parseAmount("0.8"));
+      await backer1.contributeConfidentially(3, parseAmount("0.5"));
+      await expectInvariant();
+      await backer2.contribute(3, parseAmount("0.2"));
+      await backer2.contribute(4, parseAmount("0.3"));
+      await expectInvariant();
+
+      await passDeadline();
+      for (const id of [3, 4]) {
+        await client.finalize(id);
+        await expectInvariant();
+      }
+
+      await creatorClient.withdraw(1);
+      await expectInvariant();
+      await backer1.refund(3);
+      await expectInvariant();
+      await backer2.refund(3);
+      await backer2.refund(4);
+      await expectInvariant();
+      await creatorClient.withdraw(2);
+      await expectInvariant();
+      await backer1.withdrawDeposit(parseAmount("0.8"));
+      await expectInvariant();
+
+      const statuses = await Promise.all([1, 2, 3, 4].map(async (id) => (await client.getProject(id)).status));
+      expect(statuses).to.deep.equal([
+        ProjectStatus.Withdrawn,
+        ProjectStatus.Withdrawn,
+        ProjectStatus.Failed,
+        ProjectStatus.Failed,
+      ]);
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(0n);
+    });
+  });
+
+  describe("Decryption Requests", function () {
+    const fundingPeriod = daysToSeconds(7);
+
+    beforeEach(async function () {
+      for (const title of ["Failing Opera", "Funded Ballet", "Failing Circus"]) {
+        await client.connect(signers.creator).createProject({
+          title,
+          description: `${title} description`,
+          category: "Theater",
+          target: parseAmount("1"),
+          fundingPeriod,
+        });
+      }
+    });
+
+    /**
+     * ✅ DO: Correlate every callback to the project that requested it
+     * Demonstrates interleaved finalizations, each landing on its own project
+     */
+    it("should settle interleaved finalizations on the right projects", async function () {
+      // The goal checks of these contributions stay pending until the oracle runs below
+      await client.connect(signers.backer1).contribute(1, parseAmount("0.4"));
+      await client.connect(signers.backer2).contribute(2, parseAmount("1.5"));
+      await client.connect(signers.backer1).contribute(3, parseAmount("0.9"));
+
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      for (const id of [3, 1, 2]) {
+        await client.finalize(id);
+      }
+      expect(await client.finalize(1).catch((error: unknown) => error)).to.be.instanceOf(FinalizationPendingError);
+
+      const pending = await client.getPendingRequests(1);
+      expect(pending.map(({ kind }) => kind)).to.deep.equal([DecryptionKind.GoalCheck, DecryptionKind.Finalization]);
+      expect(pending.every(({ projectId, fulfilled }) => projectId === 1 && !fulfilled)).to.be.true;
+
+      await fhevm.awaitDecryptionOracle();
+
+      const statuses = await Promise.all([1, 2, 3].map(async (id) => (await client.getProject(id)).status));
+      expect(statuses).to.deep.equal([ProjectStatus.Failed, ProjectStatus.Successful, ProjectStatus.Failed]);
+      for (const id of [1, 2, 3]) {
+        expect(await client.getPendingRequests(id)).to.deep.equal([]);
+      }
+    });
+
+    /**
+     * ❌ DON'T: Accept decryption results from anyone
+     * Demonstrates that forged, mismatched and replayed callbacks are rejected
+     */
+    it("should reject forged, mismatched and replayed callbacks", async function () {
+      await client.connect(signers.backer1).contribute(1, parseAmount("0.4"));
+      await fhevm.awaitDecryptionOracle();
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await client.finalize(1);
+
+      const [request] = await client.getPendingRequests(1);
+      expect(request).to.deep.include({ kind: DecryptionKind.Finalization, projectId: 1, fulfilled: false });
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64", "uint64"], [parseAmount("2"), 1n]);
+      const attacker = contract.connect(signers.backer2);
+      await expect(attacker.processFinalization(request.requestId, forged, "0x")).to.be.reverted;
+      await expect(attacker.processRefund(request.requestId, forged, "0x")).to.be.revertedWith(
+        REVERT_CATALOGUE.INVALID_REQUEST_ID.reason,
+      );
+      await expect(attacker.processFinalization(request.requestId + 1000n, forged, "0x")).to.be.revertedWith(
+        REVERT_CATALOGUE.INVALID_REQUEST_ID.reason,
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Failed);
+      expect((await client.getDecryptionRequest(request.requestId)).fulfilled).to.be.true;
+
+      // Replay the oracle's own, correctly signed callback
+      const [failed] = await contract.queryFilter(contract.filters.ProjectFailed(1));
+      const callback = await failed.getTransaction();
+      await expect(signers.backer2.sendTransaction({ to: contractAddress, data: callback.data })).to.be.revertedWith(
+        REVERT_CATALOGUE.REQUEST_ALREADY_FULFILLED.reason,
+      );
+    });
+  });
+
+  describe("Goal Checks and Progress", function () {
+    const fundingPeriod = daysToSeconds(7);
+
+    beforeEach(async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Jazz Night",
+        description: "Monthly jazz evenings",
+        category: "Music",
+        target: parseAmount("1"),
+        fundingPeriod,
+      });
+    });
+
+    /**
+     * ✅ DO: Compare the encrypted amounts with FHE.ge and decrypt the ebool only
+     * Demonstrates that neither the raised amount nor the target reach the decryption callback
+     */
+    it("should decrypt only whether the goal was reached", async function () {
+      await client.connect(signers.backer1).contribute(1, parseAmount("1.5"));
+      await fhevm.awaitDecryptionOracle();
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Successful);
+
+      const [funded] = await contract.queryFilter(contract.filters.ProjectFunded(1));
+      const callback = contract.interface.parseTransaction(await funded.getTransaction())!;
+      expect(callback.name).to.equal("processGoalCheck");
+      expect(callback.args.cleartexts).to.equal(ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]));
+      expect(callback.args.cleartexts).to.not.include(toBeHex(parseAmount("1.5")).slice(2));
+      expect(await client.getPublishedProgress(1)).to.be.undefined;
+    });
+
+    /**
+     * ✅ DO: Let the creator opt in to publishing coarse progress
+     * Demonstrates the 25% buckets computed under FHE as contributions come in
+     */
+    it("should publish progress buckets once the creator opts in", async function () {
+      const creatorClient = client.connect(signers.creator);
+      const published = async () => {
+        await fhevm.awaitDecryptionOracle();
+        return (await client.getPublishedProgress(1))?.percent;
+      };
+
+      await client.connect(signers.backer1).contribute(1, parseAmount("0.2"));
+      expect(await published()).to.be.undefined;
+      await expect(contract.connect(signers.backer1).setProgressPublished(1, true)).to.be.revertedWith(
+        REVERT_CATALOGUE.NOT_PROJECT_CREATOR.reason,
+      );
+
+      await creatorClient.setProgressPublished(1, true);
+      expect(await published()).to.equal(0);
+      await client.connect(signers.backer2).contribute(1, parseAmount("0.3"));
+      expect(await published()).to.equal(50);
+      await client.connect(signers.backer1).contribute(1, parseAmount("0.3"));
+      expect(await published()).to.equal(75);
+
+      await creatorClient.setProgressPublished(1, false);
+      expect(await published()).to.be.undefined;
+      await creatorClient.setProgressPublished(1, true);
+      await client.connect(signers.backer2).contribute(1, parseAmount("0.4"));
+      expect(await published()).to.equal(100);
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Successful);
+    });
+
+    /**
+     * ❌ DON'T: Let a late callback roll the published progress back
+     * Demonstrates that progress callbacks older than the applied bucket are ignored
+     */
+    it("should ignore progress callbacks delivered out of order", async function () {
+      await client.connect(signers.creator).setProgressPublished(1, true);
+      await client.connect(signers.backer1).contribute(1, parseAmount("0.3"));
+      await client.connect(signers.backer2).contribute(1, parseAmount("0.3"));
+
+      // Capture the oracle's signed callbacks, then deliver them newest first
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await fhevm.awaitDecryptionOracle();
+      const events = await contract.queryFilter(contract.filters.ProgressPublished(1));
+      expect(events.map((event) => event.args.percent)).to.deep.equal([0n, 25n, 50n]);
+      const callbacks = await Promise.all(events.map(async (event) => (await event.getTransaction()).data));
+      await ethers.provider.send("evm_revert", [snapshot]);
+
+      for (const data of callbacks.reverse()) {
+        await (await signers.deployer.sendTransaction({ to: contractAddress, data })).wait();
+      }
+      expect((await client.getPublishedProgress(1))?.percent).to.equal(50);
+    });
+  });
+
+  describe("Backer Portfolio", function () {
+    /**
+     * ✅ DO: Read the backer's own contributions and claim refunds of failed projects
+     * Demonstrates the SDK portfolio behind backer:portfolio and the frontend tab
+     */
+    it("should list backed projects with decryptable contributions and refund eligibility", async function () {
+      const creatorClient = client.connect(signers.creator);
+      const fundingPeriod = daysToSeconds(7);
+      for (const title of ["Poetry Zine", "Choir Tour"]) {
+        await creatorClient.createProject({
+          title,
+          description: `${title} description`,
+          category: "Literature",
+          target: parseAmount("1"),
+          fundingPeriod,
+        });
+      }
+
+      const backerClient = decryptingClient(client, signers.backer1);
+      await backerClient.contribute(1, parseAmount("0.2"), "Short of the goal");
+      await backerClient.contribute(2, parseAmount("0.3"));
+
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await client.finalize(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const portfolio = await backerClient.getPortfolio(signers.backer1.address);
+      expect(portfolio.map(({ project }) => project.id)).to.deep.equal([1, 2]);
+      expect(portfolio[0].project.status).to.equal(ProjectStatus.Failed);
+      expect(portfolio[0].contribution.supportMessage).to.equal("Short of the goal");
+      expect(await backerClient.decryptAmount(portfolio[0].contribution.encryptedAmount)).to.equal(parseAmount("0.2"));
+      expect(await backerClient.decryptAmount(portfolio[1].contribution.encryptedAmount)).to.equal(parseAmount("0.3"));
+
+      expect(checkRefund(portfolio[0].project, portfolio[0].contribution)).to.deep.equal({ allowed: true });
+      expect(checkRefund(portfolio[1].project, portfolio[1].contribution)).to.deep.include({
+        code: "PROJECT_NOT_FAILED",
+      });
+
+      await backerClient.refund(1);
+      const [refunded] = await backerClient.getPortfolio(signers.backer1.address);
+      expect(refunded.contribution.refunded).to.be.true;
+      expect(checkRefund(refunded.project, refunded.contribution)).to.deep.include({ code: "ALREADY_REFUNDED" });
+    });
+  });
+
+  describe("Confidential Contributions", function () {
+    const fundingPeriod = daysToSeconds(7);
+
+    beforeEach(async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Secret Gallery",
+        description: "Pop-up gallery of anonymous artists",
+        category: "Visual Arts",
+        target: parseAmount("1"),
+        fundingPeriod,
+      });
+    });
+
+    /**
+     * ✅ DO: Encrypt the amount client-side and pay it from the deposit pool
+     * Demonstrates that the amount never appears in the transaction or its logs
+     */
+    it("should keep the contributed amount out of calldata and logs", async function () {
+      const backerClient = decryptingClient(client, signers.backer1);
+      const amount = parseAmount("0.4");
+      await backerClient.deposit(parseAmount("1"));
+
+      const receipt = await backerClient.contributeConfidentially(1, amount, "Quietly");
+      const tx = (await ethers.provider.getTransaction(receipt.hash))!;
+      const amountHex = toBeHex(amount).slice(2);
+
+      expect(tx.value).to.equal(0n);
+      expect(tx.data.toLowerCase()).to.not.include(amountHex);
+      for (const log of receipt.logs) {
+        expect([...log.topics, log.data].join("").toLowerCase()).to.not.include(amountHex);
+      }
+
+      const contribution = await backerClient.getContribution(1, signers.backer1.address);
+      expect(contribution.confidential).to.be.true;
+      expect(contribution.supportMessage).to.equal("Quietly");
+      expect(await backerClient.decryptContribution(1, signers.backer1.address)).to.equal(amount);
+      expect(await backerClient.decryptDepositBalance()).to.equal(parseAmount("0.6"));
+    });
+
+    /**
+     * ❌ DON'T: Expect a revert when the deposit pool is short
+     * Demonstrates that an uncovered amount contributes 0, a revert would leak the balance
+     */
+    it("should contribute nothing when the deposit pool does not cover the amount", async function () {
+      const backerClient = decryptingClient(client, signers.backer1);
+      await backerClient.deposit(parseAmount("0.1"));
+
+      await backerClient.contributeConfidentially(1, parseAmount("0.5"));
+
+      expect(await backerClient.decryptContribution(1, signers.backer1.address)).to.equal(0n);
+      expect(await backerClient.decryptDepositBalance()).to.equal(parseAmount("0.1"));
+      await expect(contract.connect(signers.backer1).deposit({ value: 0 })).to.be.revertedWith(
+        "Invalid deposit amount",
+      );
+    });
+
+    /**
+     * ✅ DO: Keep a partly confidential total encrypted on refund
+     * Demonstrates that mixed repeat contributions are refunded into the deposit pool
+     */
+    it("should refund a mixed total into the deposit pool", async function () {
+      const backerClient = decryptingClient(client, signers.backer1);
+      await backerClient.contribute(1, parseAmount("0.2"), "In the open");
+      await backerClient.deposit(parseAmount("0.5"));
+      await backerClient.contributeConfidentially(1, parseAmount("0.1"), "In private");
+
+      const history = await backerClient.getContributionHistory(1, signers.backer1.address);
+      expect(history.map(({ confidential }) => confidential)).to.deep.equal([false, true]);
+      expect((await backerClient.getContribution(1, signers.backer1.address)).confidential).to.be.true;
+
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await client.finalize(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await backerClient.refund(1);
+      expect(await backerClient.decryptDepositBalance()).to.equal(parseAmount("0.7"));
+      expect(await decryptingClient(client, signers.creator).decryptProjectEscrow(1)).to.equal(0n);
+    });
+
+    /**
+     * ✅ DO: Refund confidential contributions into the pool and withdraw it
+     * Demonstrates that only the covered flag is decrypted before paying out
+     */
+    it("should refund into the deposit pool and pay out covered withdrawals", async function () {
+      const backerClient = decryptingClient(client, signers.backer1);
+      await backerClient.deposit(parseAmount("0.5"));
+      await backerClient.contributeConfidentially(1, parseAmount("0.3"));
+
+      await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await client.finalize(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await backerClient.refund(1);
+      expect(await backerClient.decryptDepositBalance()).to.equal(parseAmount("0.5"));
+
+      await backerClient.withdrawDeposit(parseAmount("0.8"));
+      await backerClient.withdrawDeposit(parseAmount("0.5"));
+      const balanceBefore = await ethers.provider.getBalance(signers.backer1.address);
+      await fhevm.awaitDecryptionOracle();
+
+      const withdrawals = await contract.queryFilter(contract.filters.DepositWithdrawn(signers.backer1.address));
+      expect(withdrawals.map(({ args }) => [args.amount, args.paid])).to.deep.equal([
+        [parseAmount("0.8"), false],
+        [parseAmount("0.5"), true],
+      ]);
+      expect(await ethers.provider.getBalance(signers.backer1.address)).to.equal(balanceBefore + parseAmount("0.5"));
+      expect(await backerClient.decryptDepositBalance()).to.equal(0n);
     });
   });
 
@@ -391,7 +1078,70 @@ describe("AnonymousCulturalCrowdfunding", function () {
         contract
           .connect(signers.backer1)
           .getProjectAmounts(1),
-      ).to.be.revertedWith("Not authorized to view amounts");
+      ).to.be.revertedWith(REVERT_CATALOGUE.NOT_AUTHORIZED_TO_VIEW_AMOUNTS.reason);
+
+      // The SDK surfaces the same revert as a typed error
+      const error = await client
+        .connect(signers.backer1)
+        .getProjectAmountHandles(1)
+        .catch((caught: unknown) => caught);
+      expect(error).to.be.instanceOf(NotAuthorizedToViewAmountsError);
+    });
+
+    /**
+     * ✅ DO: Decrypt the contribution total of each backer as the creator or the owner
+     * Demonstrates the ACL grants behind project:backers --decrypt
+     */
+    it("should let the creator and the owner decrypt contribution totals", async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Poetry Anthology",
+        description: "Collected works of local poets",
+        category: "Literature",
+        target: parseAmount("5"),
+        fundingPeriod: daysToSeconds(30),
+      });
+      const backer = client.connect(signers.backer1);
+      await backer.contribute(1, parseAmount("0.3"));
+      await backer.contribute(1, parseAmount("0.2"));
+      await client.connect(signers.backer2).contribute(1, parseAmount("0.1"));
+
+      for (const reader of [signers.creator, signers.deployer]) {
+        const readerClient = decryptingClient(client, reader);
+        const { encryptedAmount } = await readerClient.getContribution(1, signers.backer1.address);
+        expect(await readerClient.decryptAmount(encryptedAmount)).to.equal(parseAmount("0.5"));
+      }
+
+      // Other backers can neither read nor decrypt the total
+      const { encryptedAmount } = await client.connect(signers.backer1).getContribution(1, signers.backer1.address);
+      const error = await decryptingClient(client, signers.backer2)
+        .decryptAmount(encryptedAmount)
+        .catch((caught: unknown) => caught);
+      expect(error).to.be.instanceOf(Error);
+    });
+
+    /**
+     * ❌ DON'T: Match revert reasons by substring in tooling
+     * Demonstrates the typed errors the SDK client decodes reverts into
+     */
+    it("should surface reverts as typed SDK errors", async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Sculpture Park",
+        description: "Open air sculpture trail",
+        category: "Visual Arts",
+        target: parseAmount("2"),
+        fundingPeriod: daysToSeconds(30),
+      });
+
+      const readError = await client
+        .connect(signers.backer1)
+        .decryptProjectAmounts(1)
+        .catch((error: unknown) => error);
+      expect(readError).to.be.instanceOf(NotAuthorizedToViewAmountsError);
+
+      const finalizeError = await client.finalize(1).catch((error: unknown) => error);
+      expect(finalizeError).to.be.instanceOf(DeadlineNotReachedError);
+      expect((finalizeError as DeadlineNotReachedError).code).to.equal("DEADLINE_NOT_REACHED");
+      expect((finalizeError as DeadlineNotReachedError).hint).to.equal(REVERT_CATALOGUE.DEADLINE_NOT_REACHED.hint);
     });
   });
 
@@ -424,9 +1174,72 @@ describe("AnonymousCulturalCrowdfunding", function () {
           "hash2",
         );
 
-      const stats = await contract.getPlatformStats();
+      const stats = await client.getPlatformStats();
       expect(stats.totalProjects).to.equal(2);
       expect(stats.activeProjects).to.equal(2);
     });
+
+    /**
+     * ✅ DO: Page through projects with the SDK client
+     * Demonstrates paginated reads over the project counter
+     */
+    it("should paginate projects", async function () {
+      for (const title of ["Project 1", "Project 2", "Project 3"]) {
+        await client.connect(signers.creator).createProject({
+          title,
+          description: "Description",
+          category: "Art",
+          target: parseAmount("1"),
+          fundingPeriod: daysToSeconds(30),
+        });
+      }
+
+      const page = await client.listProjects({ offset: 1, limit: 5 });
+      expect(page.total).to.equal(3);
+      expect(page.items.map((project) => project.title)).to.deep.equal(["Project 2", "Project 3"]);
+    });
+  });
+
+  describe("Platform Ownership", function () {
+    /**
+     * ✅ DO: Hand the platform to another account
+     * Demonstrates transferOwnership and the owner-only actions of the new owner
+     */
+    it("should transfer ownership to a new owner", async function () {
+      await client.connect(signers.creator).createProject({
+        title: "Project 1",
+        description: "Description",
+        category: "Art",
+        target: parseAmount("1"),
+        fundingPeriod: daysToSeconds(30),
+      });
+
+      await expect(contract.connect(signers.deployer).transferOwnership(signers.backer2.address))
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.backer2.address);
+      expect(await client.getOwner()).to.equal(signers.backer2.address);
+
+      await expect(contract.connect(signers.deployer).emergencyPause(1)).to.be.revertedWith(
+        REVERT_CATALOGUE.NOT_AUTHORIZED.reason,
+      );
+      await contract.connect(signers.backer2).emergencyPause(1);
+      expect((await client.getProject(1)).status).to.equal(ProjectStatus.Failed);
+    });
+
+    /**
+     * ❌ DON'T: Let anyone else take over, or lose the platform to the zero address
+     */
+    it("should reject ownership transfers from non-owners and to the zero address", async function () {
+      await expect(
+        contract.connect(signers.creator).transferOwnership(signers.creator.address),
+      ).to.be.revertedWith(REVERT_CATALOGUE.NOT_AUTHORIZED.reason);
+
+      const error = await client
+        .connect(signers.deployer)
+        .transferOwnership(ethers.ZeroAddress)
+        .catch((caught: unknown) => caught);
+      expect(error).to.be.instanceOf(InvalidOwnerAddressError);
+      expect(await client.getOwner()).to.equal(signers.deployer.address);
+    });
   });
 });
@@ -0,0 +1,278 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { expect } from "chai";
+import type {
+  AccountProjectsResponse,
+  CrowdfundingDataSource,
+  ProjectBackersResponse,
+  ProjectPageResponse,
+  ProjectResponse,
+  SchemaName,
+  StatsResponse,
+} from "../../api";
+import { ChainDataSource, IndexDataSource, SCHEMAS, createApiServer, createOpenApiDocument } from "../../api";
+import { CrowdfundingIndexer, IndexQuery, IndexStore } from "../../indexer";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+
+/**
+ * API Server Test Suite
+ *
+ * This test suite demonstrates:
+ * - Serving the read-only API offline against the hardhat network
+ * - The same responses from the chain and from the local index
+ * - Response bodies that match the published JSON schemas
+ */
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+  backer2: HardhatEthersSigner;
+};
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string;
+  enum?: readonly string[];
+  required?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  pattern?: string;
+};
+
+/**
+ * Minimal validator for the schema keywords used in api/schemas.ts
+ */
+function expectSchema(value: unknown, schema: JsonSchema, path = "$"): void {
+  if (schema.$ref) {
+    const name = schema.$ref.split("/").pop() as SchemaName;
+    return expectSchema(value, SCHEMAS[name] as JsonSchema, path);
+  }
+
+  switch (schema.type) {
+    case "object": {
+      expect(value, path).to.be.an("object");
+      const object = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        expect(object, path).to.have.property(key);
+      }
+      for (const [key, child] of Object.entries(object)) {
+        const property = schema.properties?.[key];
+        if (!property) {
+          expect(schema.additionalProperties, `${path}.${key} is not in the schema`).to.not.equal(false);
+          continue;
+        }
+        expectSchema(child, property, `${path}.${key}`);
+      }
+      break;
+    }
+    case "array":
+      expect(value, path).to.be.an("array");
+      (value as unknown[]).forEach((item, i) => expectSchema(item, schema.items!, `${path}[${i}]`));
+      break;
+    case "integer":
+      expect(Number.isInteger(value), `${path} is an integer`).to.be.true;
+      break;
+    default:
+      expect(typeof value, path).to.equal(schema.type);
+  }
+
+  if (schema.enum) {
+    expect(schema.enum, path).to.include(value);
+  }
+  if (schema.pattern) {
+    expect(value as string, path).to.match(new RegExp(schema.pattern));
+  }
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+  const client = new CrowdfundingClient(contract);
+  const deployment = await contract.deploymentTransaction()!.wait();
+
+  return { contract, client, startBlock: deployment!.blockNumber };
+}
+
+async function listen(source: CrowdfundingDataSource): Promise<{ server: Server; baseUrl: string }> {
+  const server = createApiServer(source);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+describe("API Server", function () {
+  let signers: Signers;
+  let contract: AnonymousCulturalCrowdfunding;
+  let client: CrowdfundingClient;
+  let startBlock: number;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      creator: ethSigners[1],
+      backer1: ethSigners[2],
+      backer2: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, client, startBlock } = await deployFixture());
+
+    for (const [title, category] of [
+      ["Folk Album", "Music"],
+      ["Mural", "Art"],
+      ["Jazz Trio", "Music"],
+    ]) {
+      await client.connect(signers.creator).createProject({
+        title,
+        description: `${title} description`,
+        category,
+        target: parseAmount("1"),
+        fundingPeriod: daysToSeconds(30),
+      });
+    }
+    await client.connect(signers.backer1).contribute(1, parseAmount("0.1"), "Go!");
+    await client.connect(signers.backer2).contribute(1, parseAmount("0.2"), "");
+    await client.connect(signers.backer2).contribute(3, parseAmount("0.3"), "");
+  });
+
+  async function indexSource(): Promise<IndexDataSource> {
+    const store = IndexStore.memory({
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      contractAddress: await contract.getAddress(),
+      startBlock,
+    });
+    await new CrowdfundingIndexer(contract, ethers.provider, store).sync();
+    const query = new IndexQuery(store);
+    return new IndexDataSource(() => query);
+  }
+
+  for (const sourceName of ["chain", "index"] as const) {
+    describe(`backed by the ${sourceName}`, function () {
+      let server: Server;
+      let baseUrl: string;
+
+      beforeEach(async function () {
+        const source = sourceName === "chain" ? new ChainDataSource(client) : await indexSource();
+        ({ server, baseUrl } = await listen(source));
+      });
+
+      afterEach(async function () {
+        await new Promise((resolve) => server?.close(resolve));
+      });
+
+      async function get<T>(path: string, schema?: SchemaName, status = 200): Promise<T> {
+        const response = await fetch(`${baseUrl}${path}`);
+        const body = (await response.json()) as T;
+        expect(response.status, `${path}: ${JSON.stringify(body)}`).to.equal(status);
+        expectSchema(body, SCHEMAS[schema ?? "Error"] as JsonSchema);
+        return body;
+      }
+
+      /**
+       * ✅ DO: Filter and paginate projects over HTTP
+       * Demonstrates /projects query parameters
+       */
+      it("should list, filter and paginate projects", async function () {
+        const all = await get<ProjectPageResponse>("/projects", "ProjectPage");
+        expect(all.total).to.equal(3);
+
+        const music = await get<ProjectPageResponse>("/projects?category=music&limit=1&offset=1", "ProjectPage");
+        expect(music.total).to.equal(2);
+        expect(music.items.map((project: { title: string }) => project.title)).to.deep.equal(["Jazz Trio"]);
+
+        const active = await get<ProjectPageResponse>(
+          `/projects?status=Active&creator=${signers.creator.address}`,
+          "ProjectPage",
+        );
+        expect(active.total).to.equal(3);
+      });
+
+      /**
+       * ✅ DO: Read a project and its backers without exposing amounts
+       */
+      it("should serve a project and its backers", async function () {
+        const project = await get<ProjectResponse>("/projects/1", "Project");
+        expect(project.title).to.equal("Folk Album");
+        expect(project.backerCount).to.equal(2);
+
+        const backers = await get<ProjectBackersResponse>("/projects/1/backers", "ProjectBackers");
+        expect(backers.backers.map((backer: { address: string }) => backer.address)).to.deep.equal([
+          signers.backer1.address,
+          signers.backer2.address,
+        ]);
+      });
+
+      /**
+       * ✅ DO: Look up the projects of an account
+       */
+      it("should serve creator, backer and platform views", async function () {
+        const created = await get<AccountProjectsResponse>(`/creators/${signers.creator.address}`, "AccountProjects");
+        expect(created.projects).to.have.length(3);
+
+        const backed = await get<AccountProjectsResponse>(`/backers/${signers.backer2.address}`, "AccountProjects");
+        expect(backed.projects.map((project: { id: number }) => project.id)).to.deep.equal([1, 3]);
+
+        const stats = await get<StatsResponse>("/stats", "Stats");
+        expect(stats).to.deep.equal({
+          totalProjects: 3,
+          activeProjects: 3,
+          successfulProjects: 0,
+          failedProjects: 0,
+          source: sourceName,
+        });
+      });
+
+      /**
+       * ❌ DON'T: Expect anything but 4xx errors for bad input
+       * Demonstrates validation of path and query parameters
+       */
+      it("should reject invalid requests", async function () {
+        await get("/projects/99", undefined, 404);
+        await get("/projects/abc", undefined, 400);
+        await get("/projects?status=Paused", undefined, 400);
+        await get("/projects?limit=1000", undefined, 400);
+        await get("/creators/not-an-address", undefined, 400);
+        await get("/unknown", undefined, 404);
+
+        const response = await fetch(`${baseUrl}/projects`, { method: "POST" });
+        expect(response.status).to.equal(405);
+      });
+    });
+  }
+
+  /**
+   * ✅ DO: Publish the OpenAPI document with the server
+   */
+  it("should serve the OpenAPI document", async function () {
+    const { server, baseUrl } = await listen(new ChainDataSource(client));
+    try {
+      const response = await fetch(`${baseUrl}/openapi.json`);
+      const document = (await response.json()) as ReturnType<typeof createOpenApiDocument>;
+      expect(document.openapi).to.equal("3.1.0");
+      expect(Object.keys(document.paths)).to.include.members([
+        "/projects",
+        "/projects/{id}",
+        "/projects/{id}/backers",
+        "/creators/{address}",
+        "/backers/{address}",
+        "/stats",
+      ]);
+      expect(Object.keys(document.components.schemas)).to.deep.equal(Object.keys(SCHEMAS));
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { deployments, ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import {
+  DeploymentNotFoundError,
+  ProjectStatus,
+  emptyRegistry,
+  getDeployment,
+  hashAbi,
+  parseDeploymentRegistry,
+  withDeployment,
+} from "../../sdk";
+import { CONTRACT_NAME, loadRegistry, saveRegistry } from "../../tasks/CrowdfundingResolver";
+import { createManifest, handOffOwnership, runSmokeTest } from "../../tasks/DeploymentSteps";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { runTask } from "../tasks/helpers";
+
+/**
+ * Deployment Registry Test Suite
+ *
+ * This test suite demonstrates:
+ * - The manifest recorded by the deploy script
+ * - Resolving the deployment by chain id and network name
+ * - Upgrading the legacy address-only registry
+ * - The post-deploy smoke test and ownership handoff
+ * - The deployments:smoke task
+ */
+
+describe("Deployment Registry", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  /**
+   * ✅ DO: Record where and how the contract was deployed
+   * Demonstrates the manifest fields and their round trip through the registry file
+   */
+  it("should record a manifest of the deployment", async function () {
+    await deployments.fixture([CONTRACT_NAME]);
+    const deployment = await deployments.get(CONTRACT_NAME);
+    const { deployer } = await hre.getNamedAccounts();
+
+    const manifest = await createManifest(hre, deployment);
+
+    expect(manifest).to.deep.include({
+      network: "hardhat",
+      chainId: 31337,
+      contractName: CONTRACT_NAME,
+      address: deployment.address,
+      transactionHash: deployment.transactionHash,
+      blockNumber: deployment.receipt!.blockNumber,
+      deployer,
+    });
+    expect(manifest.compiler).to.deep.equal({
+      version: manifest.compiler!.version,
+      optimizer: { enabled: true, runs: 800 },
+      evmVersion: "cancun",
+    });
+    expect(manifest.compiler!.version).to.match(/^0\.8\.27\+commit\./);
+    // The frontend compares the hash against the ABI of its generated factory
+    expect(manifest.abiHash).to.equal(hashAbi(AnonymousCulturalCrowdfunding__factory.abi));
+
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "registry-")), "deployments.json");
+    saveRegistry(withDeployment(loadRegistry(file), manifest), file);
+    expect(getDeployment(loadRegistry(file), 31337n, "hardhat")).to.deep.equal(manifest);
+    expect(await ethers.provider.getCode(manifest.address)).to.not.equal("0x");
+  });
+
+  /**
+   * ❌ DON'T: Confuse networks that share a chain id
+   * Demonstrates lookups by network name and the most recent deployment of a chain
+   */
+  it("should tell apart networks on the same chain", function () {
+    const base = { chainId: 31337, contractName: CONTRACT_NAME, address: ethers.ZeroAddress };
+    const registry = [
+      { ...base, network: "localhost", deployedAt: "2024-01-01T00:00:00.000Z" },
+      { ...base, network: "anvil", deployedAt: "2024-02-01T00:00:00.000Z" },
+    ].reduce(withDeployment, emptyRegistry());
+
+    expect(getDeployment(registry, 31337, "localhost").network).to.equal("localhost");
+    expect(getDeployment(registry, 31337).network).to.equal("anvil");
+    expect(() => getDeployment(registry, 31337, "hardhat")).to.throw(DeploymentNotFoundError);
+    expect(() => getDeployment(registry, 1)).to.throw(DeploymentNotFoundError);
+  });
+
+  /**
+   * ✅ DO: Keep reading registries written before manifests existed
+   */
+  it("should upgrade the legacy chain id keyed registry", function () {
+    const registry = parseDeploymentRegistry({
+      "11155111": { network: "sepolia", address: "0x659b4d354550ADCf46cf1392148DE42C16E8E8Da" },
+    });
+
+    expect(registry.version).to.equal(1);
+    expect(getDeployment(registry, 11155111, "sepolia")).to.deep.equal({
+      network: "sepolia",
+      chainId: 11155111,
+      contractName: CONTRACT_NAME,
+      address: "0x659b4d354550ADCf46cf1392148DE42C16E8E8Da",
+    });
+    expect(() => parseDeploymentRegistry({ version: 2, deployments: {} })).to.throw(/Unsupported/);
+  });
+
+  /**
+   * ✅ DO: Check a fresh deployment before handing it over
+   * Demonstrates the smoke test reads, the throwaway project and the ownership handoff
+   */
+  it("should pass the smoke test and hand off ownership", async function () {
+    await deployments.fixture([CONTRACT_NAME]);
+    const { address } = await deployments.get(CONTRACT_NAME);
+    const [deployer, , , , newOwner] = await ethers.getSigners();
+
+    const report = await runSmokeTest(hre, address, { throwawayProject: true });
+    expect(report).to.deep.include({ owner: deployer.address, projectCounter: 0 });
+    expect(report.throwawayStatus).to.equal(ProjectStatus.Failed);
+    // The throwaway project lives on the deployment itself
+    const contract = AnonymousCulturalCrowdfunding__factory.connect(address, ethers.provider);
+    expect(await contract.projectCounter()).to.equal(1);
+    expect((await contract.getPlatformStats()).failedProjects).to.equal(1);
+
+    const receipt = await handOffOwnership(hre, address, newOwner.address);
+    expect(receipt).to.not.be.undefined;
+    expect(await contract.owner()).to.equal(newOwner.address);
+    // Re-running the deploy step is a no-op once the new owner is in place
+    expect(await handOffOwnership(hre, address, newOwner.address)).to.be.undefined;
+  });
+
+  /**
+   * ✅ DO: Smoke test a running deployment from the command line
+   * Demonstrates the task path, which sets up the fhevm plugin before the throwaway project
+   */
+  it("should pass deployments:smoke with a throwaway project", async function () {
+    const factory = (await ethers.getContractFactory(CONTRACT_NAME)) as AnonymousCulturalCrowdfunding__factory;
+    const contract = (await (await factory.deploy()).waitForDeployment()) as AnonymousCulturalCrowdfunding;
+    const [, , , , newOwner] = await ethers.getSigners();
+
+    const lines = await runTask("deployments:smoke", {
+      address: await contract.getAddress(),
+      throwaway: true,
+      transferOwner: newOwner.address,
+    });
+
+    expect(lines).to.include.members(["Projects: 0", "Throwaway project: Failed", "Smoke test passed"]);
+    expect(await contract.projectCounter()).to.equal(1);
+    expect(await contract.owner()).to.equal(newOwner.address);
+  });
+});
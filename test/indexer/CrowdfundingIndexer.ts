@@ -0,0 +1,164 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { expect } from "chai";
+import { CrowdfundingIndexer, IndexQuery, IndexStore } from "../../indexer";
+import { CrowdfundingClient, ProjectStatus, daysToSeconds, parseAmount } from "../../sdk";
+
+/**
+ * CrowdfundingIndexer Test Suite
+ *
+ * This test suite demonstrates:
+ * - Indexing contract events into an in-memory store
+ * - Querying indexed projects, contributions and statistics
+ * - Rolling back orphaned blocks after a reorg
+ */
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+  backer2: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+  const client = new CrowdfundingClient(contract);
+
+  const deployment = await contract.deploymentTransaction()!.wait();
+  const store = IndexStore.memory({
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    contractAddress: await contract.getAddress(),
+    startBlock: deployment!.blockNumber,
+  });
+  const indexer = new CrowdfundingIndexer(contract, ethers.provider, store);
+
+  return { contract, client, store, indexer, query: new IndexQuery(store) };
+}
+
+describe("CrowdfundingIndexer", function () {
+  let signers: Signers;
+  let client: CrowdfundingClient;
+  let indexer: CrowdfundingIndexer;
+  let query: IndexQuery;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      creator: ethSigners[1],
+      backer1: ethSigners[2],
+      backer2: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ client, indexer, query } = await deployFixture());
+  });
+
+  async function createProject(title: string, creator: HardhatEthersSigner = signers.creator) {
+    const { projectId } = await client.connect(creator).createProject({
+      title,
+      description: `${title} description`,
+      category: "Music",
+      target: parseAmount("5"),
+      fundingPeriod: daysToSeconds(30),
+      metadataHash: "QmIndexed",
+    });
+    return projectId;
+  }
+
+  /**
+   * ✅ DO: Read projects from the index instead of the chain
+   * Demonstrates that indexed projects match the contract view
+   */
+  it("should index created projects and contributions", async function () {
+    const projectId = await createProject("Jazz Night");
+    await client.connect(signers.backer1).contribute(projectId, parseAmount("0.1"), "First");
+    await client.connect(signers.backer1).contribute(projectId, parseAmount("0.2"), "Again");
+    await client.connect(signers.backer2).contribute(projectId, parseAmount("0.3"), "");
+
+    const result = await indexer.sync();
+    expect(result.events).to.equal(4);
+
+    const indexed = query.getProject(projectId)!;
+    const onChain = await client.getProject(projectId);
+    expect(indexed.title).to.equal(onChain.title);
+    expect(indexed.description).to.equal(onChain.description);
+    expect(indexed.metadataHash).to.equal(onChain.metadataHash);
+    expect(indexed.deadline).to.deep.equal(onChain.deadline);
+    expect(indexed.createdAt).to.deep.equal(onChain.createdAt);
+    expect(indexed.backerCount).to.equal(onChain.backerCount);
+    expect(indexed.status).to.equal(ProjectStatus.Active);
+
+    expect(query.getContributions(projectId)).to.have.length(3);
+    expect(query.getBackerProjectIds(signers.backer2.address)).to.deep.equal([projectId]);
+    expect(query.getPlatformStats()).to.deep.equal(await client.getPlatformStats());
+  });
+
+  /**
+   * ✅ DO: Filter and paginate from the index
+   * Demonstrates list queries without walking every project id through RPC
+   */
+  it("should filter and paginate indexed projects", async function () {
+    await createProject("Project 1");
+    await createProject("Project 2", signers.backer1);
+    await createProject("Project 3");
+    await indexer.sync();
+
+    const page = query.listProjects({ creator: signers.creator.address, offset: 1, limit: 1 });
+    expect(page.total).to.equal(2);
+    expect(page.items.map((project) => project.title)).to.deep.equal(["Project 3"]);
+
+    const descending = query.listProjects({ sort: "id", order: "desc" });
+    expect(descending.items.map((project) => project.id)).to.deep.equal([3, 2, 1]);
+  });
+
+  /**
+   * ✅ DO: Sync incrementally
+   * Demonstrates that a second sync only indexes the new blocks
+   */
+  it("should resume from the last indexed block", async function () {
+    await createProject("Project 1");
+    const first = await indexer.sync();
+
+    await createProject("Project 2");
+    const second = await indexer.sync();
+
+    expect(second.events).to.equal(1);
+    expect(second.head!.number).to.be.greaterThan(first.head!.number);
+    expect(query.getProjectCount()).to.equal(2);
+  });
+
+  /**
+   * ❌ DON'T: Keep events of blocks that are no longer part of the chain
+   * Demonstrates reorg handling with evm_snapshot / evm_revert
+   */
+  it("should roll back orphaned events after a reorg", async function () {
+    const projectId = await createProject("Street Art");
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await client.connect(signers.backer1).contribute(projectId, parseAmount("0.1"), "Orphaned");
+    await indexer.sync();
+    expect(query.getBackers(projectId)).to.deep.equal([signers.backer1.address]);
+
+    // Replace the orphaned block with a different one on the new branch
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await client.connect(signers.backer2).contribute(projectId, parseAmount("0.2"), "Canonical");
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+
+    const result = await indexer.sync();
+    expect(result.reorgedTo).to.not.equal(undefined);
+    expect(query.getBackers(projectId)).to.deep.equal([signers.backer2.address]);
+    expect(query.getContributions(projectId)).to.have.length(1);
+  });
+});
@@ -0,0 +1,252 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { expect } from "chai";
+import type { NotifierConfig, RetryPolicy, WebhookPayload } from "../../notifier";
+import {
+  CrowdfundingNotifier,
+  DeadLetterFile,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookDispatcher,
+  parseNotifierConfig,
+  verifySignature,
+} from "../../notifier";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+
+/**
+ * CrowdfundingNotifier Test Suite
+ *
+ * This test suite demonstrates:
+ * - Signed webhook deliveries to a local HTTP stand-in server
+ * - Retries with backoff and the dead-letter file
+ * - Replaying notifications from a given block
+ */
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+  backer2: HardhatEthersSigner;
+};
+
+const SECRET = "test-webhook-secret";
+const FAST_RETRY: RetryPolicy = { attempts: 3, backoffMs: 1, timeoutMs: 2000 };
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local webhook receiver recording every request, answering with the queued statuses then 200
+ */
+class StandInServer {
+  readonly requests: ReceivedRequest[] = [];
+  readonly statuses: number[] = [];
+  private readonly server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      this.requests.push({ headers: request.headers, body });
+      response.writeHead(this.statuses.shift() ?? 200).end();
+    });
+  });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hooks`;
+  }
+
+  get payloads(): WebhookPayload[] {
+    return this.requests.map((request) => JSON.parse(request.body));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+  const client = new CrowdfundingClient(contract);
+  const deployment = await contract.deploymentTransaction()!.wait();
+
+  return { contract, client, startBlock: deployment!.blockNumber };
+}
+
+describe("CrowdfundingNotifier", function () {
+  let signers: Signers;
+  let contract: AnonymousCulturalCrowdfunding;
+  let client: CrowdfundingClient;
+  let startBlock: number;
+  let receiver: StandInServer;
+  let deadLetters: DeadLetterFile;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      creator: ethSigners[1],
+      backer1: ethSigners[2],
+      backer2: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, client, startBlock } = await deployFixture());
+    receiver = new StandInServer();
+    await receiver.start();
+    deadLetters = new DeadLetterFile(
+      path.join(fs.mkdtempSync(path.join(os.tmpdir(), "notifier-")), "dead-letter.jsonl"),
+    );
+  });
+
+  afterEach(async function () {
+    await receiver?.stop();
+  });
+
+  function createNotifier(retry: RetryPolicy = FAST_RETRY, fromBlock: number = startBlock) {
+    const config: NotifierConfig = parseNotifierConfig({
+      webhooks: { [signers.creator.address]: { url: receiver.url, secret: SECRET } },
+      retry,
+    });
+    return new CrowdfundingNotifier(
+      contract,
+      ethers.provider,
+      config,
+      new WebhookDispatcher(config.retry, deadLetters),
+      { fromBlock },
+    );
+  }
+
+  async function fundAndWithdraw(): Promise<number> {
+    const fundingPeriod = daysToSeconds(7);
+    const { projectId } = await client.connect(signers.creator).createProject({
+      title: "Harbour Festival",
+      description: "Music by the water",
+      category: "Music",
+      target: parseAmount("1"),
+      fundingPeriod,
+    });
+    await client.connect(signers.backer1).contribute(projectId, parseAmount("1.2"), "See you there");
+
+    await ethers.provider.send("evm_increaseTime", [Number(fundingPeriod) + 1]);
+    await ethers.provider.send("evm_mine", []);
+    await client.finalize(projectId);
+    await fhevm.awaitDecryptionOracle();
+    await client.connect(signers.creator).withdraw(projectId);
+    return projectId;
+  }
+
+  /**
+   * ✅ DO: Sign every payload so receivers can authenticate it
+   * Demonstrates deliveries to the creator webhook and their signature check
+   */
+  it("should POST signed payloads of the creator's project events", async function () {
+    const projectId = await fundAndWithdraw();
+    // A project of a creator without webhook is not notified
+    const { projectId: otherProject } = await client.connect(signers.backer2).createProject({
+      title: "Unlisted",
+      description: "No webhook configured",
+      category: "Art",
+      target: parseAmount("1"),
+      fundingPeriod: daysToSeconds(30),
+    });
+    await client.connect(signers.backer1).contribute(otherProject, parseAmount("0.1"));
+
+    const result = await createNotifier().sync();
+
+    expect(result).to.deep.include({ delivered: 3, failed: 0, skipped: 1 });
+    expect(receiver.payloads.map((payload) => payload.event)).to.deep.equal([
+      "AnonymousContributionMade",
+      "ProjectFunded",
+      "FundsWithdrawn",
+    ]);
+
+    const [contribution] = receiver.payloads;
+    expect(contribution).to.deep.include({
+      projectId,
+      creator: signers.creator.address,
+      backer: signers.backer1.address,
+      contractAddress: await contract.getAddress(),
+    });
+    expect(contribution).to.not.have.property("amount");
+
+    for (const request of receiver.requests) {
+      const timestamp = Number(request.headers[TIMESTAMP_HEADER]);
+      const signature = String(request.headers[SIGNATURE_HEADER]);
+      expect(verifySignature(request.body, SECRET, timestamp, signature)).to.be.true;
+      expect(verifySignature(request.body, "wrong-secret", timestamp, signature)).to.be.false;
+    }
+  });
+
+  /**
+   * ❌ DON'T: Drop notifications when the receiver is down
+   * Demonstrates retries and the dead-letter file
+   */
+  it("should retry failed deliveries and dead-letter the ones that keep failing", async function () {
+    const { projectId } = await client.connect(signers.creator).createProject({
+      title: "Puppet Theater",
+      description: "Shows for children",
+      category: "Theater",
+      target: parseAmount("1"),
+      fundingPeriod: daysToSeconds(30),
+    });
+    await client.connect(signers.backer1).contribute(projectId, parseAmount("0.1"));
+    await client.connect(signers.backer2).contribute(projectId, parseAmount("0.1"));
+
+    // First contribution: two 503 then accepted, second: rejected on every attempt
+    receiver.statuses.push(503, 503, 200, 500, 500, 500);
+    const result = await createNotifier().sync();
+
+    expect(result).to.deep.include({ delivered: 1, failed: 1 });
+    expect(receiver.requests).to.have.length(6);
+
+    const letters = deadLetters.read();
+    expect(letters).to.have.length(1);
+    expect(letters[0]).to.deep.include({ url: receiver.url, attempts: 3, error: "HTTP 500" });
+    expect(letters[0].payload.backer).to.equal(signers.backer2.address);
+  });
+
+  /**
+   * ✅ DO: Replay notifications from a block after an outage
+   * Demonstrates that replayed payloads keep their delivery id
+   */
+  it("should replay events from a given block with stable delivery ids", async function () {
+    await fundAndWithdraw();
+
+    const first = createNotifier();
+    await first.sync();
+    const delivered = receiver.payloads;
+
+    // Nothing new for a notifier that resumes after the last block
+    const resumed = createNotifier(FAST_RETRY, first.lastBlock! + 1);
+    expect((await resumed.sync()).delivered).to.equal(0);
+
+    // Replay only the blocks from the finalization onwards
+    const funded = delivered.find((payload) => payload.event === "ProjectFunded")!;
+    await createNotifier(FAST_RETRY, funded.blockNumber).sync();
+
+    const replayed = receiver.payloads.slice(delivered.length);
+    expect(replayed.map((payload) => payload.id)).to.deep.equal(
+      delivered.filter((payload) => payload.blockNumber >= funded.blockNumber).map((payload) => payload.id),
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+import { CrowdfundingTaskError } from "../../tasks/CrowdfundingResolver";
+import { runTask } from "./helpers";
+
+/**
+ * backer:deposit, backer:withdraw-deposit and project:contribute --confidential Test Suite
+ *
+ * This test suite demonstrates:
+ * - Funding the deposit pool and contributing an encrypted amount from it
+ * - Withdrawing what is left of the pool
+ * - The balance checks made before sending
+ */
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("backer:deposit and confidential contributions", function () {
+  let address: string;
+  let client: CrowdfundingClient;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+    const [, creator] = await ethers.getSigners();
+    await client.connect(creator).createProject({
+      title: "Choir Tour",
+      description: "A regional choir tour",
+      category: "Music",
+      target: parseAmount("2"),
+      fundingPeriod: daysToSeconds(30),
+    });
+  });
+
+  /**
+   * ✅ DO: Contribute an encrypted amount drawn from the deposit pool
+   * Demonstrates that only the backer learns the amount of the contribution
+   */
+  it("should contribute confidentially from the deposit pool", async function () {
+    const lines = await runTask("backer:deposit", { address, amount: "1", from: "2" });
+    expect(lines).to.include("Deposit pool balance: 1.0 ETH");
+
+    await runTask("project:contribute", { address, id: 1, amount: "0.4", from: "2", confidential: true });
+
+    const output = await runTask("backer:portfolio", { address, from: "2", format: "json" });
+    const portfolio = JSON.parse(output.join("\n"));
+    expect(portfolio.projects[0]).to.deep.include({ id: 1, amount: "0.4" });
+    expect(await runTask("backer:deposit", { address, amount: "0.1", from: "2" })).to.include(
+      "Deposit pool balance: 0.7 ETH",
+    );
+  });
+
+  /**
+   * ✅ DO: Withdraw the unused part of the deposit pool
+   * Demonstrates that the ETH leaves the contract once the oracle confirmed the balance
+   */
+  it("should withdraw from the deposit pool", async function () {
+    await runTask("backer:deposit", { address, amount: "1", from: "2" });
+
+    await runTask("backer:withdraw-deposit", { address, amount: "0.75", from: "2" });
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await ethers.provider.getBalance(address)).to.equal(parseAmount("0.25"));
+  });
+
+  /**
+   * ❌ DON'T: Spend more than the deposit pool holds
+   * Demonstrates the checks made before the transaction, the contract would silently use 0 instead
+   */
+  it("should reject amounts above the deposit pool balance", async function () {
+    await runTask("backer:deposit", { address, amount: "0.5", from: "2" });
+
+    const contribution = await runTask("project:contribute", {
+      address,
+      id: 1,
+      amount: "0.6",
+      from: "2",
+      confidential: true,
+    }).catch((caught: unknown) => caught);
+    // HardhatPluginError resets the prototype of its subclasses, compare the error by name
+    expect(contribution).to.have.property("name", CrowdfundingTaskError.name);
+    expect((contribution as Error).message).to.match(/holds 0.5 ETH, run backer:deposit first/);
+
+    const withdrawal = await runTask("backer:withdraw-deposit", { address, amount: "1", from: "2" }).catch(
+      (caught: unknown) => caught,
+    );
+    expect(withdrawal).to.have.property("name", CrowdfundingTaskError.name);
+    expect((withdrawal as Error).message).to.match(/holds 0.5 ETH/);
+    expect((await client.getProject(1)).backerCount).to.equal(0);
+  });
+});
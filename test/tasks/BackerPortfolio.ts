@@ -0,0 +1,83 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+import { runTask } from "./helpers";
+
+/**
+ * backer:portfolio Test Suite
+ *
+ * This test suite demonstrates:
+ * - Listing the backed projects with the decrypted contributions
+ * - Claiming every eligible refund with --refund
+ */
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("backer:portfolio", function () {
+  let address: string;
+  let client: CrowdfundingClient;
+  let backer: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+    const [owner, creator, ...others] = await ethers.getSigners();
+    backer = others[0];
+
+    for (const title of ["Folk Festival", "Dance Workshop", "Film Club"]) {
+      await client.connect(creator).createProject({
+        title,
+        description: `${title} description`,
+        category: "Community",
+        target: parseAmount("2"),
+        fundingPeriod: daysToSeconds(30),
+      });
+    }
+    await client.connect(backer).contribute(1, parseAmount("0.25"));
+    await client.connect(backer).contribute(2, parseAmount("0.5"));
+
+    // The second project is stopped by the owner, its backers may ask for a refund
+    await (await client.contract.connect(owner).emergencyPause(2)).wait();
+  });
+
+  /**
+   * ✅ DO: Review the projects an account backed
+   * Demonstrates the decrypted amounts, their total and the refundable projects
+   */
+  it("should list the backed projects with the decrypted amounts", async function () {
+    const lines = await runTask("backer:portfolio", { address, from: "2", format: "json" });
+    const portfolio = JSON.parse(lines.join("\n"));
+
+    expect(portfolio).to.deep.include({ backer: backer.address, decryptedTotal: "0.75", refundable: [2] });
+    expect(portfolio.projects).to.have.lengthOf(2);
+    expect(portfolio.projects[0]).to.deep.include({ id: 1, title: "Folk Festival", status: "Active", amount: "0.25" });
+    expect(portfolio.projects[1]).to.deep.include({ id: 2, status: "Failed", amount: "0.5", refund: "eligible" });
+  });
+
+  /**
+   * ✅ DO: Claim the refunds of every failed project at once
+   * Demonstrates that --refund requests the refund and lists the project as refunded
+   */
+  it("should request the eligible refunds with --refund", async function () {
+    const lines = await runTask("backer:portfolio", { address, from: "2", refund: true });
+    await fhevm.awaitDecryptionOracle();
+
+    expect(lines).to.include(`Requesting refund for project #2 to ${backer.address}`);
+    expect(lines.some((line) => line.startsWith("Eligible for a refund"))).to.be.false;
+    expect((await client.getContributionStatus(2, backer.address)).refunded).to.be.true;
+    expect((await client.getContributionStatus(1, backer.address)).refunded).to.be.false;
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, ProjectStatus, daysToSeconds, parseAmount } from "../../sdk";
+import { CrowdfundingTaskError } from "../../tasks/CrowdfundingResolver";
+import { runTask } from "./helpers";
+
+/**
+ * platform:export and platform:import Test Suite
+ *
+ * This test suite demonstrates:
+ * - Exporting the projects and decrypted contributions into a snapshot
+ * - Replaying the snapshot onto a fresh deployment
+ */
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+  backer2: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("platform:export and platform:import", function () {
+  let signers: Signers;
+  let address: string;
+  let client: CrowdfundingClient;
+  let snapshotPath: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { owner: ethSigners[0], creator: ethSigners[1], backer1: ethSigners[2], backer2: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+    snapshotPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-")), "platform.json");
+
+    for (const title of ["Street Theatre", "Poetry Zine"]) {
+      await client.connect(signers.creator).createProject({
+        title,
+        description: `${title} description`,
+        category: "Literature",
+        target: parseAmount("2"),
+        fundingPeriod: daysToSeconds(30),
+      });
+    }
+    await client.connect(signers.backer1).contribute(1, parseAmount("0.5"), "Break a leg");
+    await client.connect(signers.backer2).contribute(2, parseAmount("0.3"));
+
+    // The second project is stopped by the owner and its backer asks for a refund
+    await (await client.contract.connect(signers.owner).emergencyPause(2)).wait();
+    await client.connect(signers.backer2).refund(2);
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  /**
+   * ✅ DO: Export a snapshot with the amounts local accounts can decrypt
+   * Demonstrates the decrypted targets, contributions and refund flags
+   */
+  it("should export the projects with decrypted amounts", async function () {
+    const lines = await runTask("platform:export", { address, out: snapshotPath, decrypt: true });
+
+    const blockNumber = await ethers.provider.getBlockNumber();
+    expect(lines).to.include(`Exported 2 projects and 2 contributions at block ${blockNumber}`);
+    expect(lines).to.include("Decrypted 2 of 2 contribution amounts");
+
+    const snapshot = JSON.parse(fs.readFileSync(snapshotPath, "utf8"));
+    expect(snapshot).to.deep.include({ network: "hardhat", contractAddress: address, owner: signers.owner.address });
+    expect(snapshot.stats).to.deep.equal({
+      totalProjects: 2,
+      activeProjects: 1,
+      successfulProjects: 0,
+      failedProjects: 1,
+    });
+
+    const [theatre, zine] = snapshot.projects;
+    expect(theatre).to.deep.include({ title: "Street Theatre", status: "Active", target: "2.0" });
+    expect(theatre.backers).to.have.lengthOf(1);
+    expect(theatre.backers[0]).to.deep.include({
+      address: signers.backer1.address,
+      amount: "0.5",
+      refunded: false,
+      supportMessage: "Break a leg",
+    });
+    expect(zine).to.deep.include({ status: "Failed" });
+    expect(zine.backers[0]).to.deep.include({ address: signers.backer2.address, amount: "0.3", refunded: true });
+  });
+
+  /**
+   * ✅ DO: Replay a snapshot onto a fresh local deployment
+   * Demonstrates that projects, contributions, failures and refunds are reproduced
+   */
+  it("should replay the snapshot onto a fresh deployment", async function () {
+    await runTask("platform:export", { address, out: snapshotPath, decrypt: true });
+    const { blockNumber } = JSON.parse(fs.readFileSync(snapshotPath, "utf8"));
+    const { address: freshAddress, client: fresh } = await deployFixture();
+
+    const lines = await runTask("platform:import", { address: freshAddress, in: snapshotPath });
+
+    expect(lines).to.include(`Imported 2 projects from hardhat (block ${blockNumber})`);
+    expect(await fresh.getProjectCount()).to.equal(2);
+    expect(await fresh.getProject(1)).to.deep.include({
+      title: "Street Theatre",
+      creator: signers.creator.address,
+      status: ProjectStatus.Active,
+      backerCount: 1,
+    });
+    expect((await fresh.getProject(2)).status).to.equal(ProjectStatus.Failed);
+    expect(await fresh.hasContributed(1, signers.backer1.address)).to.be.true;
+    expect((await fresh.getContributionStatus(2, signers.backer2.address)).refunded).to.be.true;
+
+    // Exporting the replayed deployment gives back the original amounts
+    const replayPath = path.join(path.dirname(snapshotPath), "replay.json");
+    await runTask("platform:export", { address: freshAddress, out: replayPath, decrypt: true });
+    const replay = JSON.parse(fs.readFileSync(replayPath, "utf8"));
+    expect(replay.projects[0].target).to.equal("2.0");
+    expect(replay.projects[0].backers[0].amount).to.equal("0.5");
+  });
+
+  /**
+   * ❌ DON'T: Import into a deployment that already has projects
+   * Demonstrates that the replay refuses to mix the snapshot with existing projects
+   */
+  it("should reject a deployment that already has projects", async function () {
+    await runTask("platform:export", { address, out: snapshotPath });
+
+    const error = await runTask("platform:import", { address, in: snapshotPath }).catch((caught: unknown) => caught);
+    // HardhatPluginError resets the prototype of its subclasses, compare the error by name
+    expect(error).to.have.property("name", CrowdfundingTaskError.name);
+    expect((error as Error).message).to.match(/already has projects/);
+    expect(await client.getProjectCount()).to.equal(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+import { runTask } from "./helpers";
+
+/**
+ * project:backers Test Suite
+ *
+ * This test suite demonstrates:
+ * - Decrypted per-backer totals for the creator and the owner
+ * - The rows a backer is not authorized to read
+ */
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+  backer2: HardhatEthersSigner;
+};
+
+interface BackersReport {
+  backers: { backer: string; supportMessage: string; amount?: string }[];
+  unreadable: string[];
+  undecrypted: string[];
+  decryptedTotal?: string;
+  raised?: string;
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:backers", function () {
+  let signers: Signers;
+  let address: string;
+  let client: CrowdfundingClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], creator: ethSigners[1], backer1: ethSigners[2], backer2: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+    await client.connect(signers.creator).createProject({
+      title: "Jazz Night",
+      description: "Monthly jazz concerts",
+      category: "Music",
+      target: parseAmount("5"),
+      fundingPeriod: daysToSeconds(30),
+    });
+    await client.connect(signers.backer1).contribute(1, parseAmount("0.3"), "Swing on");
+    await client.connect(signers.backer1).contribute(1, parseAmount("0.2"));
+    await client.connect(signers.backer2).contribute(1, parseAmount("0.1"));
+  });
+
+  async function backers(from: string, decrypt: boolean): Promise<BackersReport> {
+    const lines = await runTask("project:backers", { address, id: 1, from, decrypt, format: "json" });
+    return JSON.parse(lines.join("\n")) as BackersReport;
+  }
+
+  /**
+   * ✅ DO: Decrypt the contribution totals as the creator or the owner
+   * Demonstrates the amount column and the decrypted total of every backer
+   */
+  it("should decrypt every backer's total for the creator and the owner", async function () {
+    for (const from of ["1", "0"]) {
+      const report = await backers(from, true);
+      expect(report.backers.map(({ backer, amount }) => [backer, amount])).to.deep.equal([
+        [signers.backer1.address, "0.5"],
+        [signers.backer2.address, "0.1"],
+      ]);
+      expect(report).to.deep.include({ unreadable: [], undecrypted: [], decryptedTotal: "0.6" });
+    }
+    // Only the creator may decrypt the project total
+    expect((await backers("1", true)).raised).to.equal("0.6");
+  });
+
+  /**
+   * ❌ DON'T: Expect a backer to see the other backers
+   * Demonstrates the rows getContribution refuses to answer
+   */
+  it("should list the rows a backer cannot read", async function () {
+    const report = await backers("2", false);
+
+    expect(report.unreadable).to.deep.equal([signers.backer2.address]);
+    expect(report.backers.map(({ supportMessage }) => supportMessage)).to.deep.equal(["Swing on", "(not authorized)"]);
+  });
+});
@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient } from "../../sdk";
+import { CrowdfundingTaskError } from "../../tasks/CrowdfundingResolver";
+import { runTask } from "./helpers";
+
+/**
+ * project:create Test Suite
+ *
+ * This test suite demonstrates:
+ * - Creating a project with the content hash of a metadata file
+ * - Rejecting conflicting metadata options before any transaction
+ */
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:create", function () {
+  let address: string;
+  let client: CrowdfundingClient;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+  });
+
+  /**
+   * ✅ DO: Create a project whose metadata hash pins the metadata file
+   * Demonstrates that the hash is the sha256 of the raw file bytes
+   */
+  it("should create a project with the hash of its metadata file", async function () {
+    const metadataFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "metadata-")), "project.json");
+    fs.writeFileSync(metadataFile, JSON.stringify({ venue: "Old Town Hall", artists: 12 }));
+    const [deployer] = await ethers.getSigners();
+
+    const lines = await runTask("project:create", {
+      address,
+      title: "Folk Music Festival",
+      description: "Three days of regional folk music",
+      category: "Music",
+      target: "2.5",
+      period: 14,
+      metadataFile,
+    });
+
+    const metadataHash = ethers.sha256(fs.readFileSync(metadataFile));
+    expect(lines).to.include.members(["=== Project #1 created ===", `Metadata Hash: ${metadataHash}`]);
+    const project = await client.getProject(1);
+    expect(project).to.deep.include({ title: "Folk Music Festival", creator: deployer.address, metadataHash });
+    expect(project.deadline.getTime() - project.createdAt.getTime()).to.equal(14 * 24 * 60 * 60 * 1000);
+  });
+
+  /**
+   * ❌ DON'T: Pass both a metadata hash and a metadata file
+   * Demonstrates the typed task error raised before the transaction
+   */
+  it("should reject a metadata hash together with a metadata file", async function () {
+    const error = await runTask("project:create", {
+      address,
+      title: "Folk Music Festival",
+      description: "Three days of regional folk music",
+      category: "Music",
+      target: "2.5",
+      metadataHash: "QmFolk123",
+      metadataFile: "./project.json",
+    }).catch((caught: unknown) => caught);
+
+    // HardhatPluginError resets the prototype of its subclasses, compare the error by name
+    expect(error).to.have.property("name", CrowdfundingTaskError.name);
+    expect(await client.getProjectCount()).to.equal(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+import { CrowdfundingTaskError } from "../../tasks/CrowdfundingResolver";
+import { runTask } from "./helpers";
+
+/**
+ * project:decrypt Test Suite
+ *
+ * This test suite demonstrates:
+ * - Decrypting the target and the running total as the creator
+ * - A backer decrypting its own contribution only
+ * - Refusing accounts that are neither creator nor backer
+ */
+
+type Signers = {
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:decrypt", function () {
+  let signers: Signers;
+  let address: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { creator: ethSigners[1], backer1: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    let client: CrowdfundingClient;
+    ({ address, client } = await deployFixture());
+    await client.connect(signers.creator).createProject({
+      title: "Dance Workshop",
+      description: "Contemporary dance workshops for teenagers",
+      category: "Dance",
+      target: parseAmount("1.4"),
+      fundingPeriod: daysToSeconds(30),
+    });
+    // Handles only depend on the operation and its operands, so the ACL grants of other suites would apply
+    // to the same amounts here, the backer denials below rely on amounts no other suite uses
+    await client.connect(signers.backer1).contribute(1, parseAmount("0.35"));
+  });
+
+  /**
+   * ✅ DO: Decrypt the project amounts as the creator
+   * Demonstrates the target, the raised total and the funded share
+   */
+  it("should decrypt the target and the raised total for the creator", async function () {
+    const lines = await runTask("project:decrypt", { address, id: 1, from: "1" });
+
+    expect(lines).to.deep.equal([
+      `=== Project #1 (decrypted as ${signers.creator.address}) ===`,
+      "Target: 1.4 ETH",
+      "Raised: 0.35 ETH",
+      "Funded: 25.00%",
+      "Your contribution: none",
+    ]);
+  });
+
+  /**
+   * ✅ DO: Decrypt the own contribution as a backer
+   * Demonstrates which amounts the ACL keeps from backers
+   */
+  it("should decrypt only the own contribution for a backer", async function () {
+    const lines = await runTask("project:decrypt", { address, id: 1, from: "2" });
+
+    expect(lines.slice(1)).to.deep.equal([
+      "Target: not authorized (the ACL denies decryption for this account)",
+      "Raised: not authorized (the ACL denies decryption for this account)",
+      "Your contribution: 0.35 ETH",
+    ]);
+  });
+
+  /**
+   * ❌ DON'T: Decrypt as an account unrelated to the project
+   * Demonstrates the typed task error instead of a revert
+   */
+  it("should refuse accounts that are neither creator nor backer", async function () {
+    const error = await runTask("project:decrypt", { address, id: 1, from: "3" }).catch((caught: unknown) => caught);
+
+    // HardhatPluginError resets the prototype of its subclasses, compare the error by name
+    expect(error).to.have.property("name", CrowdfundingTaskError.name);
+    expect((error as Error).message).to.match(/neither the creator nor a backer/);
+  });
+});
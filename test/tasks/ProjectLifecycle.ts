@@ -0,0 +1,95 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, ProjectStatus, daysToSeconds, parseAmount } from "../../sdk";
+import { runTask } from "./helpers";
+
+/**
+ * Project Lifecycle Tasks Test Suite
+ *
+ * This test suite demonstrates:
+ * - project:contribute and project:withdraw on a funded project
+ * - project:finalize and project:refund on a project that missed its target
+ */
+
+type Signers = {
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("Project Lifecycle Tasks", function () {
+  let signers: Signers;
+  let address: string;
+  let client: CrowdfundingClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { creator: ethSigners[1], backer1: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+    await client.connect(signers.creator).createProject({
+      title: "Community Choir",
+      description: "Concert season of the community choir",
+      category: "Music",
+      target: parseAmount("1"),
+      fundingPeriod: daysToSeconds(7),
+    });
+  });
+
+  /**
+   * ✅ DO: Contribute past the target and withdraw as the creator
+   * Demonstrates that the escrow is paid out once the oracle released it
+   */
+  it("should contribute and withdraw the funds of a successful project", async function () {
+    const lines = await runTask("project:contribute", { address, id: 1, amount: "1.2", message: "Bravo", from: "2" });
+    expect(lines[0]).to.equal(`Contributing 1.2 ETH to project #1 from ${signers.backer1.address}`);
+    await fhevm.awaitDecryptionOracle();
+    expect((await client.getProject(1)).status).to.equal(ProjectStatus.Successful);
+
+    const balance = await ethers.provider.getBalance(signers.creator.address);
+    await runTask("project:withdraw", { address, id: 1, from: "1" });
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await client.getProject(1)).status).to.equal(ProjectStatus.Withdrawn);
+    expect(await ethers.provider.getBalance(signers.creator.address)).to.be.greaterThan(balance);
+    expect(await ethers.provider.getBalance(address)).to.equal(0n);
+  });
+
+  /**
+   * ✅ DO: Finalize an expired project and refund its backers
+   * Demonstrates that the refund is paid once the oracle released the contribution
+   */
+  it("should finalize a failed project and refund the backer", async function () {
+    await runTask("project:contribute", { address, id: 1, amount: "0.3", from: "2" });
+    await fhevm.awaitDecryptionOracle();
+    await ethers.provider.send("evm_increaseTime", [Number(daysToSeconds(7)) + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    await runTask("project:finalize", { address, id: 1 });
+    await fhevm.awaitDecryptionOracle();
+    expect((await client.getProject(1)).status).to.equal(ProjectStatus.Failed);
+
+    await runTask("project:refund", { address, id: 1, from: "2" });
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await client.getContributionStatus(1, signers.backer1.address)).refunded).to.be.true;
+    expect(await ethers.provider.getBalance(address)).to.equal(0n);
+  });
+});
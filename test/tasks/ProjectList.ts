@@ -0,0 +1,123 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+import { runTask } from "./helpers";
+
+/**
+ * project:list Test Suite
+ *
+ * This test suite demonstrates:
+ * - Filtering by status, category, creator and backer
+ * - Sorting and paging
+ * - The json and csv output formats
+ */
+
+type Signers = {
+  creator1: HardhatEthersSigner;
+  creator2: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+  backer2: HardhatEthersSigner;
+};
+
+interface ListedProject {
+  id: number;
+  title: string;
+  category: string;
+  status: string;
+  backerCount: number;
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:list", function () {
+  let signers: Signers;
+  let address: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { creator1: ethSigners[1], creator2: ethSigners[2], backer1: ethSigners[3], backer2: ethSigners[4] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    let client: CrowdfundingClient;
+    ({ address, client } = await deployFixture());
+    const projects = [
+      { creator: signers.creator1, title: "Jazz Night", category: "Music", target: "1" },
+      { creator: signers.creator2, title: "Murals, Old Town", category: "Art", target: "5" },
+      { creator: signers.creator1, title: "Chamber Concerts", category: "Music", target: "5" },
+    ];
+    for (const { creator, title, category, target } of projects) {
+      await client.connect(creator).createProject({
+        title,
+        description: `${title} description`,
+        category,
+        target: parseAmount(target),
+        fundingPeriod: daysToSeconds(30),
+      });
+    }
+
+    await client.connect(signers.backer1).contribute(1, parseAmount("1.5"));
+    await client.connect(signers.backer1).contribute(3, parseAmount("0.2"));
+    await client.connect(signers.backer2).contribute(3, parseAmount("0.2"));
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  async function list(args: Record<string, unknown>): Promise<ListedProject[]> {
+    const lines = await runTask("project:list", { address, format: "json", ...args });
+    return JSON.parse(lines.join("\n")) as ListedProject[];
+  }
+
+  /**
+   * ✅ DO: Narrow the list with filters
+   * Demonstrates the status, category, creator and backer filters
+   */
+  it("should filter by status, category, creator and backer", async function () {
+    const ids = async (args: Record<string, unknown>) => (await list(args)).map(({ id }) => id);
+
+    expect(await ids({ status: "Successful" })).to.deep.equal([1]);
+    expect(await ids({ status: "Active", category: "music" })).to.deep.equal([3]);
+    expect(await ids({ creator: signers.creator1.address })).to.deep.equal([1, 3]);
+    expect(await ids({ backer: signers.backer2.address })).to.deep.equal([3]);
+  });
+
+  /**
+   * ✅ DO: Sort and page through the projects
+   * Demonstrates descending sorts with the id as tie breaker
+   */
+  it("should sort and page the projects", async function () {
+    const page = await list({ sort: "backerCount", order: "desc", limit: 2, offset: 0 });
+    expect(page.map(({ id, backerCount }) => [id, backerCount])).to.deep.equal([
+      [3, 2],
+      [1, 1],
+    ]);
+    expect((await list({ sort: "backerCount", order: "desc", limit: 2, offset: 2 })).map(({ id }) => id)).to.deep.equal(
+      [2],
+    );
+  });
+
+  /**
+   * ✅ DO: Export the list as csv
+   * Demonstrates the header row and the quoting of values with commas
+   */
+  it("should print csv with quoted values", async function () {
+    const lines = await runTask("project:list", { address, format: "csv", category: "Art" });
+
+    expect(lines[0]).to.equal("id,title,category,creator,status,backerCount,createdAt,deadline,metadataHash");
+    expect(lines).to.have.lengthOf(2);
+    expect(lines[1]).to.match(new RegExp(`^2,"Murals, Old Town",Art,${signers.creator2.address},Active,0,`));
+  });
+});
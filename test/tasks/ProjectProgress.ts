@@ -0,0 +1,82 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+import { CrowdfundingTaskError } from "../../tasks/CrowdfundingResolver";
+import { runTask } from "./helpers";
+
+/**
+ * project:progress Test Suite
+ *
+ * This test suite demonstrates:
+ * - Publishing the progress bucket of a project as its creator
+ * - Hiding the progress again
+ */
+
+type Signers = {
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:progress", function () {
+  let signers: Signers;
+  let address: string;
+  let client: CrowdfundingClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { creator: ethSigners[1], backer1: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+    await client.connect(signers.creator).createProject({
+      title: "Street Art Festival",
+      description: "Murals across the old town",
+      category: "Art",
+      target: parseAmount("1"),
+      fundingPeriod: daysToSeconds(30),
+    });
+    await client.connect(signers.backer1).contribute(1, parseAmount("0.6"));
+  });
+
+  /**
+   * ✅ DO: Publish the progress as the creator
+   * Demonstrates that only the 25% bucket reached is revealed
+   */
+  it("should publish and hide the progress bucket", async function () {
+    const lines = await runTask("project:progress", { address, id: 1, from: "1" });
+    expect(lines).to.include("Published progress: 50% or more");
+    expect((await client.getPublishedProgress(1))?.percent).to.equal(50);
+
+    await runTask("project:progress", { address, id: 1, from: "1", hide: true });
+    expect(await client.getPublishedProgress(1)).to.be.undefined;
+  });
+
+  /**
+   * ❌ DON'T: Publish the progress of someone else's project
+   * Demonstrates the creator check before any transaction is sent
+   */
+  it("should reject accounts other than the creator", async function () {
+    const error = await runTask("project:progress", { address, id: 1, from: "2" }).catch((caught: unknown) => caught);
+    // HardhatPluginError resets the prototype of its subclasses, compare the error by name
+    expect(error).to.have.property("name", CrowdfundingTaskError.name);
+    expect((error as Error).message).to.match(/is not the creator of project #1/);
+    expect(await client.getPublishedProgress(1)).to.be.undefined;
+  });
+});
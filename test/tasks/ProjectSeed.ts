@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { CrowdfundingClient } from "../../sdk";
+import { runTask } from "./helpers";
+
+/**
+ * project:seed Test Suite
+ *
+ * This test suite demonstrates:
+ * - Seeding the example fixture onto a fresh deployment
+ * - The manifest mapping fixture keys to project ids
+ */
+
+const FIXTURE = path.join(__dirname, "..", "..", "fixtures", "projects.yaml");
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:seed", function () {
+  let address: string;
+  let client: CrowdfundingClient;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+  });
+
+  /**
+   * ✅ DO: Seed a local deployment from a YAML fixture
+   * Demonstrates the created projects, their backers and the written manifest
+   */
+  it("should create the fixture projects and write the manifest", async function () {
+    const [, , backer1, backer2] = await ethers.getSigners();
+    const manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "seed-")), "projects.json");
+
+    await runTask("project:seed", { address, fixture: FIXTURE, manifest: manifestPath });
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    expect(manifest).to.deep.include({ network: "hardhat", contractAddress: address, fixture: FIXTURE });
+    expect(manifest.projects).to.deep.equal({ documentary: 1, album: 2, exhibition: 3 });
+
+    expect(await client.getProjectCount()).to.equal(3);
+    const documentary = await client.getProject(manifest.projects.documentary);
+    expect(documentary).to.deep.include({ title: "Independent Film Production", backerCount: 2 });
+    expect(await client.hasContributed(manifest.projects.documentary, backer2.address)).to.be.true;
+    expect(await client.hasContributed(manifest.projects.album, backer1.address)).to.be.true;
+    expect((await client.getProject(manifest.projects.exhibition)).backerCount).to.equal(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { CrowdfundingClient, ProjectStatus } from "../../sdk";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { runTask } from "./helpers";
+
+/**
+ * project:simulate Test Suite
+ *
+ * This test suite demonstrates:
+ * - Running a built-in scenario end to end on the in-process network
+ * - The refunds of a scenario that misses its target
+ */
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+
+  return { address: await contract.getAddress(), client: new CrowdfundingClient(contract) };
+}
+
+describe("project:simulate", function () {
+  let address: string;
+  let client: CrowdfundingClient;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ address, client } = await deployFixture());
+  });
+
+  /**
+   * ✅ DO: Simulate a funded project from creation to withdrawal
+   * Demonstrates that the task settles every decryption on the mock
+   */
+  it("should run the success scenario through the withdrawal", async function () {
+    const lines = await runTask("project:simulate", { address, scenario: "success" });
+
+    expect(await client.getProjectCount()).to.equal(1);
+    expect((await client.getProject(1)).status).to.equal(ProjectStatus.Withdrawn);
+    expect(lines).to.include("=== Withdrawing funds of project #1 ===");
+    expect(lines.some((line) => line.includes("Withdrawn") && line.includes("escrow released"))).to.be.true;
+  });
+
+  /**
+   * ✅ DO: Simulate a project that misses its target
+   * Demonstrates the refund requests of every backer after the failed finalization
+   */
+  it("should refund the backers of the failure scenario", async function () {
+    const [, , backer1, backer2] = await ethers.getSigners();
+    const lines = await runTask("project:simulate", { address, scenario: "failure" });
+
+    expect((await client.getProject(1)).status).to.equal(ProjectStatus.Failed);
+    expect(lines).to.include("=== Refunding the backers of project #1 ===");
+    for (const backer of [backer1, backer2]) {
+      expect((await client.getContributionStatus(1, backer.address)).refunded).to.be.true;
+    }
+  });
+});
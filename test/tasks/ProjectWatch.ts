@@ -0,0 +1,101 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre, { ethers, fhevm } from "hardhat";
+import { AnonymousCulturalCrowdfunding, AnonymousCulturalCrowdfunding__factory } from "../../types";
+import { expect } from "chai";
+import { CrowdfundingClient, daysToSeconds, parseAmount } from "../../sdk";
+
+/**
+ * project:watch Test Suite
+ *
+ * This test suite demonstrates:
+ * - Backfilling the project events with project:watch --once
+ * - Skipping the deposit pool events, which belong to no project
+ */
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  backer1: HardhatEthersSigner;
+};
+
+interface WatchedEvent {
+  event: string;
+  projectId: string;
+  title: string;
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AnonymousCulturalCrowdfunding",
+  )) as AnonymousCulturalCrowdfunding__factory;
+  const contract = (await factory.deploy()) as AnonymousCulturalCrowdfunding;
+  const deployment = await contract.deploymentTransaction()!.wait();
+
+  return { contract, client: new CrowdfundingClient(contract), startBlock: deployment!.blockNumber };
+}
+
+describe("project:watch", function () {
+  let signers: Signers;
+  let contract: AnonymousCulturalCrowdfunding;
+  let client: CrowdfundingClient;
+  let startBlock: number;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], creator: ethSigners[1], backer1: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, client, startBlock } = await deployFixture());
+  });
+
+  async function watch(args: Record<string, unknown> = {}): Promise<WatchedEvent[]> {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (line: string) => lines.push(line);
+    try {
+      await hre.run("project:watch", {
+        address: await contract.getAddress(),
+        fromBlock: startBlock,
+        format: "ndjson",
+        once: true,
+        ...args,
+      });
+    } finally {
+      console.log = log;
+    }
+    return lines.map((line) => JSON.parse(line) as WatchedEvent);
+  }
+
+  /**
+   * ✅ DO: Show the project events between deposit pool activity
+   * Demonstrates that events without a project do not stall the watcher
+   */
+  it("should print the project events and skip the deposit pool events", async function () {
+    const backer = client.connect(signers.backer1);
+    await backer.deposit(parseAmount("0.5"));
+    await client.connect(signers.creator).createProject({
+      title: "Puppet Theater",
+      description: "Touring puppet show",
+      category: "Theater",
+      target: parseAmount("1"),
+      fundingPeriod: daysToSeconds(30),
+    });
+    await backer.contribute(1, parseAmount("1.2"));
+    await backer.withdrawDeposit(parseAmount("0.5"));
+    await fhevm.awaitDecryptionOracle();
+
+    const events = await watch();
+    expect(events.map(({ event, projectId, title }) => [event, projectId, title])).to.deep.equal([
+      ["ProjectCreated", "1", "Puppet Theater"],
+      ["AnonymousContributionMade", "1", "Puppet Theater"],
+      ["ProjectFunded", "1", "Puppet Theater"],
+    ]);
+    expect(await watch({ id: 2 })).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,16 @@
+import hre from "hardhat";
+
+/**
+ * Run a task through the hardhat runtime and return what it printed with console.log, line by line
+ */
+export async function runTask(name: string, args: Record<string, unknown> = {}): Promise<string[]> {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...parts: unknown[]) => lines.push(...parts.map(String).join(" ").split("\n"));
+  try {
+    await hre.run(name, args);
+  } finally {
+    console.log = log;
+  }
+  return lines;
+}